@@ -13,61 +13,102 @@ import {
   Linking
 } from 'react-native';
 import * as Location from 'expo-location';
-import { speedLimitService } from '../services/speedLimitService';
+import { AlertSettingsPanel } from '@/components/AlertSettingsPanel';
+import { CorrectionDialog } from '@/components/CorrectionDialog';
+import { DisplaySettingsPanel } from '@/components/DisplaySettingsPanel';
+import { ReplayControls } from '@/components/ReplayControls';
+import { SegmentMap } from '@/components/SegmentMap';
+import { VehicleClassPicker } from '@/components/VehicleClassPicker';
+import { useLocalization } from '@/hooks/useLocalization';
+import { useSettings } from '@/hooks/useSettings';
+import { startBackgroundTracking, stopBackgroundTracking } from '../services/backgroundLocation';
+import { speedLimitService } from '../services/deviceSpeedLimitService';
+import { MessageKey } from '../services/i18n';
+import { GpsLocationSource, ReplayLocationSource } from '../services/locationSources';
+import { LimitSource, isEstimatedLimit } from '../services/provenance';
+import { SpeedLimitSegment, UpcomingSpeedLimit } from '../services/speedLimitService';
+import { FixSource, TrackingSnapshot, speedTracker } from '../services/speedTracker';
 
 const { width, height } = Dimensions.get('window');
 
-// Format speed for display
-const formatSpeed = (speed: number | null): string => {
-  if (speed === null) return '--';
-  return Math.round(speed).toString();
-};
-
-export interface SpeedLimitSegment {
-  id: string | number;
-  name: string;
-  type: string;
-  speedLimit: number;
-  geometry: [number, number][];
-  properties?: Record<string, any>;
-  tags?: Record<string, string>;
-  source?: string;
-  maxspeed?: string | number;
-  ref?: string;
-  highway?: string;
+const LIMIT_SOURCE_LABELS: Record<LimitSource, MessageKey> = {
+  tag: 'sourceTag',
+  zone: 'sourceZone',
+  'class-default': 'sourceClassDefault',
+  override: 'sourceOverride',
+  fallback: 'sourceFallback',
 };
 
 export default function SpeedLimitScreen() {
   const [speed, setSpeed] = useState<number | null>(null);
   const [speedLimit, setSpeedLimit] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [errorMsg, setErrorMsg] = useState<MessageKey | null>(null);
   const [debugMode, setDebugMode] = useState(false);
   const [tappedLocation, setTappedLocation] = useState<Location.LocationObject | null>(null);
   const [currentSegment, setCurrentSegment] = useState<SpeedLimitSegment | null>(null);
+  const [limitCondition, setLimitCondition] = useState<string | null>(null);
+  const [limitSource, setLimitSource] = useState<LimitSource | null>(null);
+  const [limitConfidence, setLimitConfidence] = useState<number | null>(null);
+  const [isReporting, setIsReporting] = useState(false);
+  const [matchConfidence, setMatchConfidence] = useState<number | null>(null);
+  const [upcomingLimit, setUpcomingLimit] = useState<UpcomingSpeedLimit | null>(null);
+  const [isSpeeding, setIsSpeeding] = useState(false);
   const [distanceToSegment, setDistanceToSegment] = useState<number | null>(null);
-  const debugInterval = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [replaySource, setReplaySource] = useState<ReplayLocationSource | null>(null);
   const pulseAnim = useRef(new Animated.Value(1)).current;
+  const [settings, updateSettings] = useSettings();
+  const { t, unitSymbol, formatSpeed, formatDistance } = useLocalization();
+
+  // Show whatever the tracker matched, whether the fix came from the
+  // foreground watcher below or the background location task
+  const showSnapshot = useCallback((snapshot: TrackingSnapshot) => {
+    const { lookup } = snapshot;
+    setSpeed(snapshot.speed);
+    setTappedLocation(snapshot.location);
+    setSpeedLimit(lookup.speedLimit);
+    setCurrentSegment(lookup.segment);
+    setLimitCondition(lookup.condition);
+    setLimitSource(lookup.limitSource);
+    setLimitConfidence(lookup.segment ? lookup.limitConfidence : null);
+    setMatchConfidence(lookup.segment ? lookup.confidence : null);
+    setDistanceToSegment(lookup.segment ? lookup.distance : null);
+    setUpcomingLimit(snapshot.upcoming);
+    setIsSpeeding(snapshot.alertPhase === 'alerting');
+  }, []);
+
+  useEffect(() => {
+    const current = speedTracker.getSnapshot();
+    if (current) showSnapshot(current);
+    return speedTracker.subscribe(showSnapshot);
+  }, [showSnapshot]);
+
+  // Background tracking follows the setting; it replaces the foreground watcher.
+  // Replayed fixes mustn't mix with real ones, so it stops while debug mode is on.
+  useEffect(() => {
+    if (settings.backgroundTracking && !debugMode) {
+      startBackgroundTracking().catch((error) => {
+        console.error('❌ Could not start background tracking:', error);
+        setErrorMsg('backgroundTrackingFailed');
+        updateSettings({ backgroundTracking: false });
+      });
+    } else {
+      stopBackgroundTracking().catch((error) => console.error('❌ Could not stop background tracking:', error));
+    }
+  }, [debugMode, settings.backgroundTracking, updateSettings]);
 
   // Update speed limit based on location
-  const updateSpeedLimit = useCallback(async (lat: number, lng: number) => {
+  const updateSpeedLimit = useCallback(async (location: Location.LocationObject, source: FixSource = 'gps') => {
     if (!speedLimitService.isReady) {
       console.log('⏳ Speed limit service not ready, skipping update');
       return;
     }
-    console.log(`🔄 Updating speed limit for ${lat}, ${lng}`);
-    const location = { coords: { latitude: lat, longitude: lng } } as Location.LocationObject;
-    const result = await speedLimitService.getSpeedLimitAtLocationWithInfo(location);
-    if (result) {
-      setSpeedLimit(result.speedLimit);
-      setCurrentSegment(result.segment);
-      setDistanceToSegment(result.distance);
-      console.log(`✅ Found speed limit: ${result.speedLimit} km/h at ${result.distance.toFixed(2)}m`);
+    console.log(`🔄 Updating speed limit for ${location.coords.latitude}, ${location.coords.longitude}`);
+    const { lookup } = await speedTracker.process(location, source);
+    if (lookup.segment) {
+      console.log(`✅ Found speed limit: ${lookup.speedLimit} km/h at ${lookup.distance.toFixed(2)}km`);
     } else {
-      setSpeedLimit(10); // Default speed limit when no segment is found
-      setCurrentSegment(null);
-      setDistanceToSegment(null);
-      console.log('🤷 No matching segment found, using default speed limit');
+      console.log('🤷 No matching segment found');
     }
   }, []);
 
@@ -83,7 +124,7 @@ export default function SpeedLimitScreen() {
         if (!debugMode) {
           const { status } = await Location.requestForegroundPermissionsAsync();
           if (status !== 'granted') {
-            setErrorMsg('Permission to access location was denied');
+            setErrorMsg('locationPermissionDenied');
             setIsLoading(false);
             return;
           }
@@ -100,11 +141,11 @@ export default function SpeedLimitScreen() {
 
           console.log('📍 Setting initial location:', initialLocation.coords);
           setTappedLocation(initialLocation);
-          await updateSpeedLimit(initialLocation.coords.latitude, initialLocation.coords.longitude);
+          await updateSpeedLimit(initialLocation, 'simulated');
         }
       } catch (error) {
         console.error('❌ Error during initialization:', error);
-        setErrorMsg('Failed to initialize speed limit service');
+        setErrorMsg('initializationFailed');
       } finally {
         setIsLoading(false);
         console.log('✅ Initialization complete.');
@@ -114,103 +155,44 @@ export default function SpeedLimitScreen() {
     init();
   }, [debugMode, updateSpeedLimit]); // Reruns only when debugMode changes
 
-  // Effect for managing the location watcher
+  // Real GPS unless debug mode replays a trace or background tracking delivers fixes
   useEffect(() => {
-    if (debugMode) {
-      // Handle debug mode simulation if needed, or clear watcher
-      return;
-    }
+    if (debugMode || settings.backgroundTracking) return;
 
-    let locationSubscription: Location.LocationSubscription | null = null;
-
-    const startWatching = async () => {
-      console.log('🛰️ Starting location watcher...');
-      locationSubscription = await Location.watchPositionAsync(
-        {
-          accuracy: Location.Accuracy.High,
-          distanceInterval: 1, // More sensitive updates
-          timeInterval: 1000,
-        },
-        (newLocation) => {
+    const source = new GpsLocationSource();
+    console.log('🛰️ Starting location watcher...');
+    source
+      .start({
+        onLocation: (newLocation) => {
           console.log('📍 Location updated:', newLocation.coords);
-          if (newLocation.coords.speed !== null && newLocation.coords.speed >= 0) {
-            const speedInKmh = newLocation.coords.speed * 3.6;
-            setSpeed(speedInKmh);
-          }
-          setTappedLocation(newLocation);
-          updateSpeedLimit(newLocation.coords.latitude, newLocation.coords.longitude);
-        }
-      );
-    };
-
-    startWatching();
+          updateSpeedLimit(newLocation);
+        },
+      })
+      .catch((error) => console.error('❌ Error starting location watcher:', error));
 
-    // Cleanup function to remove the watcher
     return () => {
-      if (locationSubscription) {
-        console.log('🧹 Stopping location watcher...');
-        locationSubscription.remove();
-      }
+      console.log('🧹 Stopping location watcher...');
+      source.stop();
     };
-  }, [debugMode, updateSpeedLimit]); // Reruns when debugMode or the update function changes
+  }, [debugMode, settings.backgroundTracking, updateSpeedLimit]); // Reruns when the fix source changes
 
-  // Debug mode: Simulate variable speeds and watch for location changes
+  // Debug mode: drive the whole pipeline from the selected trace
   useEffect(() => {
-    if (!debugMode) return;
-    
-    // Initial debug location in San Francisco (near Golden Gate Park)
-    const initialLocation: Location.LocationObject = {
-      coords: {
-        latitude: 37.7694,
-        longitude: -122.4862,
-        altitude: 50,
-        accuracy: 10,
-        altitudeAccuracy: 5,
-        heading: 0,
-        speed: 15,
+    if (!debugMode || !replaySource) return;
+
+    replaySource.start({
+      onLocation: (newLocation) => {
+        setTappedLocation(newLocation);
+        updateSpeedLimit(newLocation, 'simulated');
       },
-      timestamp: Date.now(),
-    };
-    
-    setTappedLocation(initialLocation);
-    updateSpeedLimit(initialLocation.coords.latitude, initialLocation.coords.longitude);
-    
-    // Set up interval to change location along a path
-    debugInterval.current = setInterval(() => {
-      // Simulate moving along a path near Golden Gate Park
-      const baseLat = 37.7694;
-      const baseLng = -122.4862;
-      const lat = baseLat + (Math.random() * 0.01 - 0.005);
-      const lng = baseLng + (Math.random() * 0.01 - 0.005);
-      
-      const newLocation: Location.LocationObject = {
-        coords: {
-          latitude: lat,
-          longitude: lng,
-          altitude: 50 + (Math.random() * 10 - 5),
-          accuracy: 5 + Math.random() * 10,
-          altitudeAccuracy: 5,
-          heading: Math.random() * 360,
-          speed: 10 + Math.random() * 10,
-        },
-        timestamp: Date.now(),
-      };
-      
-      console.log('📍 Simulated location update:', { lat, lng });
-      setTappedLocation(newLocation);
-      updateSpeedLimit(lat, lng);
-    }, 5000);
-    
-    return () => {
-      if (debugInterval.current) {
-        clearInterval(debugInterval.current);
-      }
-    };
-  }, [debugMode, updateSpeedLimit]);
+      onReset: () => speedTracker.reset(),
+    });
+    return () => replaySource.stop();
+  }, [debugMode, replaySource, updateSpeedLimit]);
 
   // Animation for warning text when speeding
   useEffect(() => {
-    if (speed && speedLimit && speed > speedLimit) {
+    if (isSpeeding) {
       // Pulsing animation
       Animated.loop(
         Animated.sequence([
@@ -229,16 +211,14 @@ export default function SpeedLimitScreen() {
     } else {
       pulseAnim.setValue(1);
     }
-  }, [speed, speedLimit, pulseAnim]);
-
-  const isSpeeding = speed !== null && speedLimit !== null && speed > speedLimit;
+  }, [isSpeeding, pulseAnim]);
 
   return (
     <SafeAreaView style={styles.container}>
       {/* Debug Toggle in Top Right */}
       <View style={styles.debugContainer}>
         <View style={styles.debugToggleContainer}>
-          <Text style={styles.debugText}>Debug Mode</Text>
+          <Text style={styles.debugText}>{t('debugMode')}</Text>
           <Switch
             value={debugMode}
             onValueChange={setDebugMode}
@@ -250,10 +230,13 @@ export default function SpeedLimitScreen() {
           style={styles.debugButton}
           onPress={() => speedLimitService.debugSegments()}
         >
-          <Text style={styles.debugButtonText}>Debug Info</Text>
+          <Text style={styles.debugButtonText}>{t('debugInfo')}</Text>
         </TouchableOpacity>
       </View>
 
+      {/* Trace Replay */}
+      {debugMode && <ReplayControls source={replaySource} onSourceChange={setReplaySource} />}
+
       {/* Main Content */}
       <View style={styles.contentContainer}>
         {/* Speed Limit Display */}
@@ -261,35 +244,78 @@ export default function SpeedLimitScreen() {
           {isLoading ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color="#007AFF" />
-              <Text style={styles.loadingText}>Loading speed limits...</Text>
+              <Text style={styles.loadingText}>{t('loadingSpeedLimits')}</Text>
             </View>
           ) : (
-            <View style={[
-              styles.speedLimitCircle,
-              isSpeeding && styles.speedingCircle
-            ]}>
+            // Long-press reports the correct limit for the matched segment
+            <TouchableOpacity
+              activeOpacity={0.8}
+              disabled={!currentSegment}
+              onLongPress={() => setIsReporting(true)}
+              style={[
+                styles.speedLimitCircle,
+                isEstimatedLimit(limitSource) && styles.estimatedCircle,
+                isSpeeding && styles.speedingCircle
+              ]}>
               <Text style={[
                 styles.speedLimitText,
                 isSpeeding && styles.speedingText
               ]}>
-                {speedLimit !== null ? speedLimit : '--'}
+                {formatSpeed(speedLimit)}
               </Text>
               <Text style={[
                 styles.kmhText,
                 isSpeeding && styles.speedingText
               ]}>
-                km/h
+                {unitSymbol}
               </Text>
+            </TouchableOpacity>
+          )}
+          {!isLoading && limitSource === 'override' && (
+            <Text style={styles.conditionText}>✏️ {t('corrected')}</Text>
+          )}
+          {!isLoading && isEstimatedLimit(limitSource) && (
+            <Text style={[styles.conditionText, styles.estimatedText]}>≈ {t('estimated')}</Text>
+          )}
+          {!isLoading && limitCondition && (
+            <Text style={styles.conditionText}>{t('conditionalLimit', { condition: limitCondition })}</Text>
+          )}
+          {!isLoading && upcomingLimit && (
+            <View style={styles.upcomingBadge}>
+              <Text style={styles.upcomingText}>
+                {t('upcomingLimit', {
+                  limit: upcomingLimit.speedLimit !== null ? formatSpeed(upcomingLimit.speedLimit) : t('noLimit'),
+                  distance: formatDistance(upcomingLimit.distance),
+                })}
+              </Text>
+            </View>
+          )}
+          {errorMsg && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{t(errorMsg)}</Text>
             </View>
           )}
         </View>
         
+        <CorrectionDialog
+          visible={isReporting}
+          segment={currentSegment}
+          position={tappedLocation?.coords ?? null}
+          currentLimit={speedLimit}
+          overridden={limitSource === 'override'}
+          onCorrected={() => {
+            // Conditional, directional and vehicle rules apply to the new limit too
+            speedTracker.refresh().catch((error) => console.error('❌ Error refreshing the speed limit:', error));
+          }}
+          onClose={() => setIsReporting(false)}
+        />
+        
         {/* Current Speed Display */}
         <View style={styles.currentSpeedContainer}>
-          <Text style={styles.currentSpeedLabel}>CURRENT SPEED</Text>
+          <Text style={styles.currentSpeedLabel}>{t('currentSpeed')}</Text>
           <Text style={styles.currentSpeedText}>
             {formatSpeed(speed)}
-            <Text style={styles.unitText}> km/h</Text>
+            <Text style={styles.unitText}> {unitSymbol}</Text>
           </Text>
           
           {speedLimit !== null && speed !== null && (
@@ -298,15 +324,33 @@ export default function SpeedLimitScreen() {
                 styles.speedDifferenceText,
                 speed > speedLimit ? styles.overSpeedText : styles.underSpeedText
               ]}>
-                {speed > speedLimit ? '+' : ''}{speed - speedLimit} km/h
+                {speed > speedLimit ? '+' : ''}{formatSpeed(speed - speedLimit)} {unitSymbol}
               </Text>
               <Text style={styles.speedDifferenceLabel}>
-                {speed > speedLimit ? 'Over Limit' : 'Under Limit'}
+                {speed > speedLimit ? t('overLimit') : t('underLimit')}
               </Text>
             </View>
           )}
         </View>
         
+        {/* Vehicle Class */}
+        <View style={styles.vehicleContainer}>
+          <VehicleClassPicker
+            value={settings.vehicleClass}
+            onChange={(vehicleClass) => updateSettings({ vehicleClass })}
+          />
+        </View>
+
+        {/* Overspeed Alerts */}
+        <View style={styles.alertSettingsContainer}>
+          <AlertSettingsPanel settings={settings} onChange={updateSettings} />
+        </View>
+
+        {/* Units and Language */}
+        <View style={styles.alertSettingsContainer}>
+          <DisplaySettingsPanel settings={settings} onChange={updateSettings} />
+        </View>
+
         {/* Warning Message */}
         {isSpeeding && (
           <Animated.View 
@@ -315,8 +359,8 @@ export default function SpeedLimitScreen() {
               { transform: [{ scale: pulseAnim }] }
             ]}
           >
-            <Text style={styles.warningText}>SLOW DOWN!</Text>
-            <Text style={styles.warningSubtext}>Speed limit exceeded</Text>
+            <Text style={styles.warningText}>{t('slowDown')}</Text>
+            <Text style={styles.warningSubtext}>{t('speedLimitExceeded')}</Text>
           </Animated.View>
         )}
         
@@ -324,6 +368,10 @@ export default function SpeedLimitScreen() {
         <View style={styles.infoContainer}>
           {tappedLocation && (
             <View style={styles.coordinateContainer}>
+              <SegmentMap
+                position={[tappedLocation.coords.longitude, tappedLocation.coords.latitude]}
+                matchedSegmentId={currentSegment?.id}
+              />
               <Text style={styles.coordinateText}>
                 🌍 {tappedLocation.coords.latitude.toFixed(6)}, {tappedLocation.coords.longitude.toFixed(6)}
               </Text>
@@ -331,31 +379,33 @@ export default function SpeedLimitScreen() {
                 <TouchableOpacity
                   style={styles.mapLinkButton}
                   onPress={() => Linking.openURL(`https://www.google.com/maps/search/?api=1&query=${tappedLocation.coords.latitude},${tappedLocation.coords.longitude}`)}>
-                  <Text style={styles.mapLinkText}>Open in Google Maps</Text>
+                  <Text style={styles.mapLinkText}>{t('openInGoogleMaps')}</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.mapLinkButton}
                   onPress={() => Linking.openURL(`https://www.openstreetmap.org/?mlat=${tappedLocation.coords.latitude}&mlon=${tappedLocation.coords.longitude}#map=18/${tappedLocation.coords.latitude}/${tappedLocation.coords.longitude}`)}>
-                  <Text style={styles.mapLinkText}>Open in OpenStreetMap</Text>
+                  <Text style={styles.mapLinkText}>{t('openInOpenStreetMap')}</Text>
                 </TouchableOpacity>
               </View>
               {debugMode && (
                 <View style={styles.debugInfoContainer}>
                   <Text style={styles.debugInfoText}>
-                    <Text style={styles.debugInfoLabel}>Accuracy: </Text>
-                    {tappedLocation.coords.accuracy ? `${tappedLocation.coords.accuracy.toFixed(1)}m` : 'N/A'}
+                    <Text style={styles.debugInfoLabel}>{t('accuracy')}</Text>
+                    {tappedLocation.coords.accuracy ? `${tappedLocation.coords.accuracy.toFixed(1)}m` : t('notAvailable')}
                   </Text>
                   <Text style={styles.debugInfoText}>
-                    <Text style={styles.debugInfoLabel}>Altitude: </Text>
-                    {tappedLocation.coords.altitude ? `${tappedLocation.coords.altitude.toFixed(1)}m` : 'N/A'}
+                    <Text style={styles.debugInfoLabel}>{t('altitude')}</Text>
+                    {tappedLocation.coords.altitude ? `${tappedLocation.coords.altitude.toFixed(1)}m` : t('notAvailable')}
                   </Text>
                   <Text style={styles.debugInfoText}>
-                    <Text style={styles.debugInfoLabel}>Heading: </Text>
-                    {tappedLocation.coords.heading ? `${tappedLocation.coords.heading.toFixed(1)}°` : 'N/A'}
+                    <Text style={styles.debugInfoLabel}>{t('heading')}</Text>
+                    {tappedLocation.coords.heading ? `${tappedLocation.coords.heading.toFixed(1)}°` : t('notAvailable')}
                   </Text>
                   <Text style={styles.debugInfoText}>
-                    <Text style={styles.debugInfoLabel}>Speed: </Text>
-                    {tappedLocation.coords.speed ? `${(tappedLocation.coords.speed * 3.6).toFixed(1)} km/h` : 'N/A'}
+                    <Text style={styles.debugInfoLabel}>{t('speed')}</Text>
+                    {tappedLocation.coords.speed
+                      ? `${formatSpeed(tappedLocation.coords.speed * 3.6)} ${unitSymbol}`
+                      : t('notAvailable')}
                   </Text>
                 </View>
               )}
@@ -364,43 +414,62 @@ export default function SpeedLimitScreen() {
           
           {currentSegment && (
             <View style={styles.segmentInfo}>
-              <Text style={styles.segmentTitle}>ROAD INFORMATION</Text>
+              <Text style={styles.segmentTitle}>{t('roadInformation')}</Text>
               
               <View style={styles.infoRow}>
-                <Text style={styles.infoLabel}>Road Name:</Text>
+                <Text style={styles.infoLabel}>{t('roadName')}</Text>
                 <Text style={styles.infoValue}>
-                  {currentSegment.name || currentSegment.ref || 'Unnamed Road'}
+                  {currentSegment.name || currentSegment.tags?.ref || t('unnamedRoad')}
                 </Text>
               </View>
               
               <View style={styles.infoRow}>
-                <Text style={styles.infoLabel}>Road Type:</Text>
+                <Text style={styles.infoLabel}>{t('roadType')}</Text>
                 <Text style={styles.infoValue}>
-                  {currentSegment.highway || currentSegment.type || 'Unknown'}
+                  {currentSegment.type || currentSegment.tags?.highway || t('unknown')}
                 </Text>
               </View>
               
               <View style={styles.infoRow}>
-                <Text style={styles.infoLabel}>Speed Limit:</Text>
+                <Text style={styles.infoLabel}>{t('speedLimit')}</Text>
                 <Text style={styles.infoValue}>
-                  {currentSegment.speedLimit} km/h
-                  {currentSegment.maxspeed && currentSegment.maxspeed !== String(currentSegment.speedLimit) && 
-                    ` (OSM: ${currentSegment.maxspeed})`}
+                  {currentSegment.speedLimit !== null
+                    ? `${formatSpeed(currentSegment.speedLimit)} ${unitSymbol}`
+                    : t('noLimit')}
+                  {currentSegment.tags?.maxspeed && currentSegment.tags.maxspeed !== String(currentSegment.speedLimit) &&
+                    t('osmMaxspeed', { maxspeed: currentSegment.tags.maxspeed })}
                 </Text>
               </View>
               
+              {limitSource && (
+                <View style={styles.infoRow}>
+                  <Text style={styles.infoLabel}>{t('limitSource')}</Text>
+                  <Text style={[styles.infoValue, isEstimatedLimit(limitSource) && styles.estimatedText]}>
+                    {t(LIMIT_SOURCE_LABELS[limitSource])}
+                    {limitConfidence !== null && ` (${Math.round(limitConfidence * 100)}%)`}
+                  </Text>
+                </View>
+              )}
+              
               {distanceToSegment !== null && (
                 <View style={styles.infoRow}>
-                  <Text style={styles.infoLabel}>Distance to Segment:</Text>
+                  <Text style={styles.infoLabel}>{t('distanceToSegment')}</Text>
                   <Text style={styles.infoValue}>
-                    {(distanceToSegment * 1000).toFixed(0)} meters
+                    {formatDistance(distanceToSegment)}
                   </Text>
                 </View>
               )}
               
+              {debugMode && matchConfidence !== null && (
+                <View style={styles.infoRow}>
+                  <Text style={styles.infoLabel}>{t('matchConfidence')}</Text>
+                  <Text style={styles.infoValue}>{Math.round(matchConfidence * 100)}%</Text>
+                </View>
+              )}
+
               {debugMode && currentSegment.properties && (
                 <View style={styles.infoRow}>
-                  <Text style={styles.infoLabel}>Segment Properties:</Text>
+                  <Text style={styles.infoLabel}>{t('segmentProperties')}</Text>
                   <Text style={styles.infoValue}>
                     {JSON.stringify(currentSegment.properties, null, 2)}
                   </Text>
@@ -479,6 +548,9 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 6,
   },
+  estimatedCircle: {
+    borderStyle: 'dashed',
+  },
   loadingContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -490,6 +562,30 @@ const styles = StyleSheet.create({
     color: '#666',
     fontWeight: '500',
   },
+  conditionText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#7f8c8d',
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  estimatedText: {
+    color: '#e67e22',
+  },
+  upcomingBadge: {
+    marginTop: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: '#fdf2e9',
+    borderWidth: 1,
+    borderColor: '#e67e22',
+  },
+  upcomingText: {
+    fontSize: 16,
+    color: '#d35400',
+    fontWeight: '600',
+  },
   speedLimitText: {
     fontSize: 80,
     fontWeight: 'bold',
@@ -558,6 +654,15 @@ const styles = StyleSheet.create({
     fontWeight: '500',
   },
   
+  vehicleContainer: {
+    marginTop: 15,
+    width: '100%',
+  },
+  alertSettingsContainer: {
+    marginTop: 10,
+    width: '100%',
+  },
+
   warningContainer: {
     marginTop: 30,
     backgroundColor: 'rgba(231, 76, 60, 0.1)',
@@ -0,0 +1,85 @@
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, FlatList, SafeAreaView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { TripSummaryCard } from '@/components/TripSummaryCard';
+import { useLocalization } from '@/hooks/useLocalization';
+import { tripStore } from '../services/tripStore';
+import { Trip } from '../services/trips';
+
+export default function TripsScreen() {
+  const router = useRouter();
+  const { t } = useLocalization();
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Trips are recorded in the background, so reload whenever the tab is shown
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      tripStore
+        .listTrips()
+        .then((loaded) => active && setTrips(loaded))
+        .catch((error) => console.error('❌ Error loading trips:', error))
+        .finally(() => active && setIsLoading(false));
+      return () => {
+        active = false;
+      };
+    }, [])
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Text style={styles.title}>{t('trips')}</Text>
+      {isLoading ? (
+        <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />
+      ) : (
+        <FlatList
+          data={trips}
+          keyExtractor={(trip) => String(trip.id)}
+          contentContainerStyle={styles.list}
+          ItemSeparatorComponent={() => <View style={styles.separator} />}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>{t('noTrips')}</Text>
+          }
+          renderItem={({ item }) => (
+            <TouchableOpacity onPress={() => router.push({ pathname: '/trip/[id]', params: { id: String(item.id) } })}>
+              <TripSummaryCard trip={item} />
+            </TouchableOpacity>
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 10,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  list: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  separator: {
+    height: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
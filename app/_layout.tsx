@@ -5,6 +5,8 @@ import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+// Registers the background location task before any updates are delivered
+import './services/backgroundLocation';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -21,6 +23,7 @@ export default function RootLayout() {
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="trip/[id]" options={{ title: 'Trip', headerBackTitle: 'Trips' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
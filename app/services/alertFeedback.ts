@@ -0,0 +1,56 @@
+import { AudioPlayer, createAudioPlayer, setAudioModeAsync } from 'expo-audio';
+import * as Haptics from 'expo-haptics';
+import { Platform } from 'react-native';
+import { AlertEvent } from './overspeedAlert';
+
+export interface FeedbackOptions {
+  sound: boolean;
+  haptics: boolean;
+}
+
+let player: AudioPlayer | null = null;
+
+function chimePlayer(): AudioPlayer {
+  if (!player) {
+    // Mix with navigation or music instead of stopping it
+    setAudioModeAsync({ playsInSilentMode: true, interruptionMode: 'duckOthers' }).catch((error) =>
+      console.warn('⚠️ Could not set audio mode:', error)
+    );
+    player = createAudioPlayer(require('../../assets/sounds/chime.wav'));
+  }
+  return player;
+}
+
+async function playChime(times: number) {
+  const chime = chimePlayer();
+  for (let i = 0; i < times; i++) {
+    await chime.seekTo(0);
+    chime.play();
+    if (i < times - 1) await new Promise((resolve) => setTimeout(resolve, 600));
+  }
+}
+
+async function pulse(event: AlertEvent) {
+  if (Platform.OS === 'web') return;
+  if (event === 'alert') {
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+  } else if (event === 'repeat') {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+  } else {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  }
+}
+
+/** Chimes and haptic pulses for alert events; clearing is only felt, not heard. */
+export async function playAlertFeedback(event: AlertEvent, options: FeedbackOptions) {
+  try {
+    if (options.haptics) {
+      await pulse(event);
+    }
+    if (options.sound && event !== 'clear') {
+      await playChime(event === 'alert' ? 2 : 1);
+    }
+  } catch (error) {
+    console.error('❌ Error playing alert feedback:', error);
+  }
+}
@@ -0,0 +1,80 @@
+import * as Location from 'expo-location';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { speedTracker } from './speedTracker';
+import { tripRecorder } from './tripRecorder';
+
+/**
+ * Background location task. Defined at module scope so it is registered
+ * before the OS delivers updates to a relaunched, headless app; import this
+ * module from the root layout.
+ */
+
+export const BACKGROUND_LOCATION_TASK = 'maxvel-background-location';
+
+export class BackgroundLocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackgroundLocationError';
+  }
+}
+
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('❌ Background location error:', error);
+    return;
+  }
+  for (const location of data?.locations ?? []) {
+    try {
+      await speedTracker.process(location);
+    } catch (processError) {
+      console.error('❌ Error processing background location:', processError);
+    }
+  }
+});
+
+export async function isBackgroundTrackingActive(): Promise<boolean> {
+  return (
+    (await TaskManager.isTaskRegisteredAsync(BACKGROUND_LOCATION_TASK)) &&
+    (await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK))
+  );
+}
+
+/** Asks for "always" location and notification permissions, then starts updates. */
+export async function startBackgroundTracking(): Promise<void> {
+  const foreground = await Location.requestForegroundPermissionsAsync();
+  if (foreground.status !== 'granted') {
+    throw new BackgroundLocationError('Permission to access location was denied');
+  }
+  const background = await Location.requestBackgroundPermissionsAsync();
+  if (background.status !== 'granted') {
+    throw new BackgroundLocationError('Permission to access location in the background was denied');
+  }
+  const notifications = await Notifications.requestPermissionsAsync();
+  if (!notifications.granted) {
+    console.warn('⚠️ Notifications not allowed, background alerts will be silent');
+  }
+
+  if (await isBackgroundTrackingActive()) return;
+  await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
+    accuracy: Location.Accuracy.High,
+    timeInterval: 1000,
+    distanceInterval: 1,
+    activityType: Location.ActivityType.AutomotiveNavigation,
+    pausesUpdatesAutomatically: false,
+    showsBackgroundLocationIndicator: true,
+    foregroundService: {
+      notificationTitle: 'MaxVel is tracking your speed',
+      notificationBody: 'Speed limit alerts stay on while the screen is off.',
+    },
+  });
+  console.log('🛰️ Background location tracking started');
+}
+
+export async function stopBackgroundTracking(): Promise<void> {
+  if (await isBackgroundTrackingActive()) {
+    await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+    await tripRecorder.finish();
+    console.log('🧹 Background location tracking stopped');
+  }
+}
@@ -0,0 +1,153 @@
+import { ConditionalSpeedLimit } from './maxspeed';
+import { TravelDirection } from './types';
+import { VEHICLE_PROFILES, VehicleClass } from './vehicles';
+
+/**
+ * Evaluator for the conditions in OSM conditional restrictions, e.g. the
+ * "(Mo-Fr 07:00-17:00)" in `maxspeed:conditional=30 @ (Mo-Fr 07:00-17:00)`.
+ *
+ * Supports the opening_hours subset that shows up on speed limits (months,
+ * weekdays, time ranges, "24/7", "off"), the weather conditions "wet" and
+ * "snow", and vehicle classes such as "hgv". Anything else evaluates to null,
+ * meaning "can't tell", and the conditional limit is not applied.
+ */
+
+export interface ConditionContext {
+  time: Date;
+  wet?: boolean;
+  snow?: boolean;
+  vehicleClass?: VehicleClass;
+}
+
+const VEHICLE_CONDITIONS = new Set(['hgv', 'goods', 'bus', 'coach', 'motorcycle', 'trailer', 'motorcar', 'motor_vehicle']);
+
+function matchesVehicle(condition: string, vehicleClass: VehicleClass | undefined): boolean | null {
+  if (!vehicleClass) return null;
+  if (condition === 'motor_vehicle') return true;
+  if (condition === 'motorcar') return vehicleClass === 'car' || vehicleClass === 'car_trailer';
+  return VEHICLE_PROFILES[vehicleClass].osmKeys.includes(condition);
+}
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Inclusive, wrapping ranges such as "Fr-Mo" or "Nov-Feb"
+function inCyclicRange(value: number, start: number, end: number) {
+  return start <= end ? value >= start && value <= end : value >= start || value <= end;
+}
+
+function matchesSelector(selector: string, names: string[], value: number): boolean | null {
+  for (const part of selector.split(',')) {
+    const [from, to] = part.split('-');
+    const start = names.indexOf(from);
+    const end = to === undefined ? start : names.indexOf(to);
+    if (start === -1 || end === -1) return null;
+    if (inCyclicRange(value, start, end)) return true;
+  }
+  return false;
+}
+
+function toMinutes(time: string): number | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+function matchesTimes(selector: string, minutes: number): boolean | null {
+  for (const range of selector.split(',')) {
+    const [from, to] = range.trim().split('-');
+    const start = toMinutes(from);
+    const end = to === undefined ? null : toMinutes(to);
+    if (start === null || end === null) return null;
+    // "22:00-06:00" runs past midnight; "24:00" is the end of the day
+    if (start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end) return true;
+  }
+  return false;
+}
+
+const MONTH_SELECTOR = /^(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)([-,]|$)/;
+const WEEKDAY_SELECTOR = /^(Mo|Tu|We|Th|Fr|Sa|Su)([-,]|$)/;
+
+// One opening_hours rule, e.g. "Jan-Mar Mo-Fr 07:00-09:00,15:00-17:00 off"
+function evaluateRule(rule: string, time: Date): { matches: boolean; off: boolean } | null {
+  // "07:00-09:00, 15:00-17:00" is common in OSM data; rejoin the list first
+  const tokens = rule.trim().replace(/\s*,\s*/g, ',').split(/\s+/);
+  let off = false;
+  let matches = true;
+
+  for (const token of tokens) {
+    let result: boolean | null;
+    if (token === '24/7') {
+      result = true;
+    } else if (token === 'off' || token === 'closed') {
+      off = true;
+      continue;
+    } else if (token === 'open') {
+      continue;
+    } else if (MONTH_SELECTOR.test(token)) {
+      result = matchesSelector(token, MONTHS, time.getMonth());
+    } else if (WEEKDAY_SELECTOR.test(token)) {
+      result = matchesSelector(token, WEEKDAYS, time.getDay());
+    } else if (/^\d/.test(token)) {
+      result = matchesTimes(token, time.getHours() * 60 + time.getMinutes());
+    } else {
+      return null; // PH, SH, sunrise, week numbers...
+    }
+    if (result === null) return null;
+    matches = matches && result;
+  }
+  return { matches, off };
+}
+
+/** Whether an opening_hours-style schedule is active at `time`. Later rules win. */
+export function isScheduleActive(schedule: string, time: Date): boolean | null {
+  let active = false;
+  for (const rule of schedule.split(';').filter((r) => r.trim())) {
+    const result = evaluateRule(rule, time);
+    if (result === null) return null;
+    if (result.matches) active = !result.off;
+  }
+  return active;
+}
+
+/** Evaluates a restriction condition; null when it can't be decided. */
+export function evaluateCondition(condition: string, context: ConditionContext): boolean | null {
+  const parts = condition.split(/\s+AND\s+/i);
+  let result: boolean | null = true;
+
+  for (const raw of parts) {
+    const part = raw.trim().replace(/^\((.*)\)$/, '$1');
+    let value: boolean | null;
+    if (part === 'wet') {
+      value = context.wet ?? null;
+    } else if (part === 'snow') {
+      value = context.snow ?? null;
+    } else if (VEHICLE_CONDITIONS.has(part)) {
+      value = matchesVehicle(part, context.vehicleClass);
+    } else {
+      value = isScheduleActive(part, context.time);
+    }
+    if (value === false) return false;
+    if (value === null) result = null;
+  }
+  return result;
+}
+
+/**
+ * The conditional limit in force, if any. When several apply the last one
+ * tagged takes precedence, as for other OSM conditional restrictions.
+ */
+export function activeConditionalLimit(
+  limits: ConditionalSpeedLimit[] | undefined,
+  direction: TravelDirection | null,
+  context: ConditionContext
+): ConditionalSpeedLimit | null {
+  let active: ConditionalSpeedLimit | null = null;
+  for (const limit of limits ?? []) {
+    if (limit.direction && limit.direction !== direction) continue;
+    if (evaluateCondition(limit.condition, context) === true) {
+      active = limit;
+    }
+  }
+  return active;
+}
@@ -0,0 +1,45 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { CORRECTION_EXPORT_FORMATS, CorrectionExportFormat, exportCorrections } from './corrections';
+import { CorrectionStore, correctionStore } from './correctionStore';
+import { resolveLocale, translate } from './i18n';
+import { getSettings } from './settings';
+
+export class CorrectionShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorrectionShareError';
+  }
+}
+
+/**
+ * Writes the queued corrections in the given format to the cache, opens the
+ * share sheet and marks them exported. Returns how many were shared. The
+ * share sheet and errors are in the app's language, as they reach the driver.
+ */
+export async function shareCorrections(
+  format: CorrectionExportFormat,
+  store: CorrectionStore = correctionStore
+): Promise<number> {
+  const locale = resolveLocale((await getSettings()).language);
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new CorrectionShareError(translate(locale, 'sharingUnavailable'));
+  }
+  const corrections = await store.list();
+  if (corrections.length === 0) {
+    throw new CorrectionShareError(translate(locale, 'noCorrectionsToExport'));
+  }
+
+  const now = Date.now();
+  const { extension, mimeType, uti } = CORRECTION_EXPORT_FORMATS[format];
+  const uri = `${FileSystem.cacheDirectory}maxvel-corrections-${new Date(now).toISOString().slice(0, 10)}.${extension}`;
+
+  await FileSystem.writeAsStringAsync(uri, exportCorrections(format, corrections, now));
+  console.log(`📤 Sharing ${corrections.length} corrections as ${format.toUpperCase()}`);
+  await Sharing.shareAsync(uri, { mimeType, UTI: uti, dialogTitle: translate(locale, 'exportCorrectionsTitle') });
+  await store.markExported(
+    corrections.map((correction) => correction.id),
+    now
+  );
+  return corrections.length;
+}
@@ -0,0 +1,121 @@
+import * as SQLite from 'expo-sqlite';
+import { NewCorrection, SpeedLimitCorrection, correctionOverrides } from './corrections';
+
+interface CorrectionRow {
+  id: number;
+  segment_id: string;
+  way_id: number | null;
+  road: string | null;
+  previous_limit: number | null;
+  speed_limit: number;
+  latitude: number;
+  longitude: number;
+  reported_at: number;
+  exported_at: number | null;
+  tags: string;
+  nodes: string | null;
+}
+
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+CREATE TABLE IF NOT EXISTS corrections (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  segment_id TEXT NOT NULL,
+  way_id INTEGER,
+  road TEXT,
+  previous_limit REAL,
+  speed_limit REAL NOT NULL,
+  latitude REAL NOT NULL,
+  longitude REAL NOT NULL,
+  reported_at INTEGER NOT NULL,
+  exported_at INTEGER,
+  tags TEXT NOT NULL,
+  nodes TEXT
+);
+CREATE INDEX IF NOT EXISTS corrections_segment ON corrections (segment_id, reported_at);
+`;
+
+function toCorrection(row: CorrectionRow): SpeedLimitCorrection {
+  return {
+    id: row.id,
+    segmentId: row.segment_id,
+    wayId: row.way_id,
+    road: row.road,
+    previousLimit: row.previous_limit,
+    speedLimit: row.speed_limit,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    reportedAt: row.reported_at,
+    exportedAt: row.exported_at,
+    tags: JSON.parse(row.tags),
+    nodes: row.nodes ? JSON.parse(row.nodes) : null,
+  };
+}
+
+/** Driver-reported limits in SQLite, kept after export as local overrides. */
+export class CorrectionStore {
+  private db: SQLite.SQLiteDatabase | null = null;
+
+  constructor(private readonly databaseName = 'corrections.db') {}
+
+  async add(correction: NewCorrection): Promise<number> {
+    const db = await this.open();
+    const result = await db.runAsync(
+      `INSERT INTO corrections
+       (segment_id, way_id, road, previous_limit, speed_limit, latitude, longitude, reported_at, tags, nodes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      correction.segmentId, correction.wayId, correction.road, correction.previousLimit, correction.speedLimit,
+      correction.latitude, correction.longitude, correction.reportedAt,
+      JSON.stringify(correction.tags), correction.nodes ? JSON.stringify(correction.nodes) : null
+    );
+    return result.lastInsertRowId;
+  }
+
+  /** Oldest first; only those not exported yet unless `includeExported`. */
+  async list(includeExported = false): Promise<SpeedLimitCorrection[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<CorrectionRow>(
+      `SELECT * FROM corrections ${includeExported ? '' : 'WHERE exported_at IS NULL'} ORDER BY reported_at`
+    );
+    return rows.map(toCorrection);
+  }
+
+  async countQueued(): Promise<number> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM corrections WHERE exported_at IS NULL'
+    );
+    return row?.count ?? 0;
+  }
+
+  /** Segment ID -> km/h, from every correction including exported ones. */
+  async getOverrides(): Promise<Map<string, number>> {
+    return correctionOverrides(await this.list(true));
+  }
+
+  async markExported(ids: number[], exportedAt: number): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.open();
+    await db.runAsync(
+      `UPDATE corrections SET exported_at = ? WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      exportedAt,
+      ...ids
+    );
+  }
+
+  /** Drops every report for a segment, which also removes its override. */
+  async deleteForSegment(segmentId: string): Promise<void> {
+    const db = await this.open();
+    await db.runAsync('DELETE FROM corrections WHERE segment_id = ?', segmentId);
+  }
+
+  private async open(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.db) {
+      this.db = await SQLite.openDatabaseAsync(this.databaseName);
+      await this.db.execAsync(SCHEMA);
+    }
+    return this.db;
+  }
+}
+
+export const correctionStore = new CorrectionStore();
@@ -0,0 +1,167 @@
+import { KMH_PER_KNOT, KMH_PER_MPH } from './maxspeed';
+import { escapeXml } from './tripExport';
+import { SpeedLimitSegment } from './types';
+
+/**
+ * Speed limits reported by drivers. The newest report for a segment
+ * overrides its limit on this device straight away; reports are queued
+ * until they are exported for review, as an OsmChange file that can be
+ * opened in JOSM or as a JSON diff. Pure, like tripExport.
+ */
+
+export interface SpeedLimitCorrection {
+  id: number;
+  segmentId: string;
+  /** OSM way the segment was built from, null for data that didn't come from OSM */
+  wayId: number | null;
+  road: string | null;
+  /** km/h the app showed, null for no limit */
+  previousLimit: number | null;
+  /** km/h the driver reported */
+  speedLimit: number;
+  /** Where the driver was when reporting */
+  latitude: number;
+  longitude: number;
+  /** ms */
+  reportedAt: number;
+  /** When the correction was last exported, ms; null while queued */
+  exportedAt: number | null;
+  /** OSM tags and node IDs of the segment when it was reported */
+  tags: Record<string, string>;
+  nodes: number[] | null;
+}
+
+export type NewCorrection = Omit<SpeedLimitCorrection, 'id' | 'exportedAt'>;
+
+export type CorrectionExportFormat = 'osc' | 'json';
+
+export const CORRECTION_EXPORT_FORMATS: Record<CorrectionExportFormat, { extension: string; mimeType: string; uti: string }> = {
+  osc: { extension: 'osc', mimeType: 'application/xml', uti: 'public.xml' },
+  json: { extension: 'json', mimeType: 'application/json', uti: 'public.json' },
+};
+
+const GENERATOR = 'MaxVel';
+
+/** The way ID in a segment ID such as 123 or "way/123", if it has one. */
+export function osmWayId(segmentId: string | number): number | null {
+  const match = String(segmentId).match(/^(?:way\/)?(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+/** A correction for `segment`, ready to be stored. */
+export function createCorrection(
+  segment: SpeedLimitSegment,
+  speedLimit: number,
+  previousLimit: number | null,
+  position: { latitude: number; longitude: number },
+  reportedAt: number
+): NewCorrection {
+  return {
+    segmentId: String(segment.id),
+    wayId: osmWayId(segment.id),
+    road: segment.name || segment.tags?.ref || null,
+    previousLimit,
+    speedLimit,
+    latitude: position.latitude,
+    longitude: position.longitude,
+    reportedAt,
+    tags: segment.tags ?? {},
+    nodes: segment.nodes ?? null,
+  };
+}
+
+/** Newest correction per segment; older reports for a segment are superseded. */
+export function latestCorrections(corrections: SpeedLimitCorrection[]): SpeedLimitCorrection[] {
+  const latest = new Map<string, SpeedLimitCorrection>();
+  for (const correction of corrections) {
+    const current = latest.get(correction.segmentId);
+    if (!current || correction.reportedAt >= current.reportedAt) {
+      latest.set(correction.segmentId, correction);
+    }
+  }
+  return [...latest.values()].sort((a, b) => a.reportedAt - b.reportedAt);
+}
+
+/** Segment ID -> km/h from the newest correction of each segment. */
+export function correctionOverrides(corrections: SpeedLimitCorrection[]): Map<string, number> {
+  return new Map(latestCorrections(corrections).map((correction) => [correction.segmentId, correction.speedLimit]));
+}
+
+function isWhole(value: number) {
+  return Math.abs(value - Math.round(value)) < 1e-6;
+}
+
+/**
+ * `maxspeed` value for a correction: in mph where the way was already tagged
+ * in mph, otherwise in the unit the driver picked the limit in.
+ */
+export function maxspeedTag(correction: SpeedLimitCorrection): string {
+  const kmh = correction.speedLimit;
+  const mph = kmh / KMH_PER_MPH;
+  if (/mph\s*$/.test(correction.tags.maxspeed ?? '')) return `${Math.round(mph)} mph`;
+  if (isWhole(kmh)) return String(Math.round(kmh));
+  if (isWhole(mph)) return `${Math.round(mph)} mph`;
+  if (isWhole(kmh / KMH_PER_KNOT)) return `${Math.round(kmh / KMH_PER_KNOT)} knots`;
+  return String(Math.round(kmh));
+}
+
+/**
+ * OsmChange 0.6 modifying `maxspeed` on each corrected way. The app doesn't
+ * know way versions, so there are none: load the file into an editor that
+ * fetches the current ways before uploading. Corrections of segments that
+ * didn't come from OSM, or without their node list, are left as comments.
+ */
+export function correctionsToOsmChange(corrections: SpeedLimitCorrection[]): string {
+  const ways: string[] = [];
+  for (const correction of latestCorrections(corrections)) {
+    if (correction.wayId === null || !correction.nodes) {
+      ways.push(`    <!-- ${escapeXml(correction.segmentId)}: not an OSM way, reported ${maxspeedTag(correction)} -->`);
+      continue;
+    }
+    const tags: Record<string, string> = { ...correction.tags, maxspeed: maxspeedTag(correction) };
+    ways.push(
+      [
+        `    <way id="${correction.wayId}">`,
+        ...correction.nodes.map((node) => `      <nd ref="${node}"/>`),
+        ...Object.keys(tags)
+          .sort()
+          .map((key) => `      <tag k="${escapeXml(key)}" v="${escapeXml(tags[key])}"/>`),
+        '    </way>',
+      ].join('\n')
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<osmChange version="0.6" generator="${GENERATOR}">`,
+    '  <modify>',
+    ...ways,
+    '  </modify>',
+    '</osmChange>',
+    '',
+  ].join('\n');
+}
+
+/** Every correction with the tag change it proposes, for review tools. */
+export function correctionsToJsonDiff(corrections: SpeedLimitCorrection[], generatedAt: number): string {
+  const changes = latestCorrections(corrections).map((correction) => ({
+    segmentId: correction.segmentId,
+    osm: correction.wayId !== null ? { type: 'way', id: correction.wayId } : null,
+    road: correction.road,
+    tags: { maxspeed: { old: correction.tags.maxspeed ?? null, new: maxspeedTag(correction) } },
+    previousLimit: correction.previousLimit,
+    speedLimit: correction.speedLimit,
+    location: [correction.longitude, correction.latitude],
+    reportedAt: new Date(correction.reportedAt).toISOString(),
+    reports: corrections.filter((other) => other.segmentId === correction.segmentId).length,
+  }));
+  return JSON.stringify({ generator: GENERATOR, generatedAt: new Date(generatedAt).toISOString(), changes }, null, 2) + '\n';
+}
+
+export function exportCorrections(
+  format: CorrectionExportFormat,
+  corrections: SpeedLimitCorrection[],
+  generatedAt: number
+): string {
+  return format === 'osc' ? correctionsToOsmChange(corrections) : correctionsToJsonDiff(corrections, generatedAt);
+}
@@ -0,0 +1,166 @@
+import { MAXSPEED_ZONES } from './maxspeed';
+
+/**
+ * Statutory limits for ways without a `maxspeed` tag, by country and road
+ * context. Shared by the fetch script, which fills in untagged ways, and the
+ * app, which re-derives those limits when it loads segments so rule changes
+ * reach data that was exported earlier.
+ *
+ * Each country lists rules in order and the first one whose conditions all
+ * hold wins. A condition on something the tags don't say (e.g. `lit` on a
+ * way without a `lit` tag) never holds. Rules name a zone from
+ * MAXSPEED_ZONES where the limit is a statutory one, so the numbers live in
+ * one place.
+ */
+
+export type SurfaceKind = 'paved' | 'unpaved';
+
+export interface RoadContext {
+  highway: string;
+  /** Whether the road is in a built-up area; null when unknown */
+  urban: boolean | null;
+  /** Lanes in each direction */
+  lanes: number | null;
+  lit: boolean | null;
+  surface: SurfaceKind | null;
+}
+
+export interface DefaultLimitRule {
+  /** Highway classes the rule is for; any class when missing */
+  highway?: string[];
+  urban?: boolean;
+  /** At least this many lanes in each direction */
+  minLanes?: number;
+  lit?: boolean;
+  surface?: SurfaceKind;
+  /** Statutory zone of the limit, e.g. "PT:rural" */
+  zone?: string;
+  /** km/h, for limits that aren't a zone's */
+  speedLimit?: number;
+}
+
+export interface DefaultLimit {
+  /** km/h; null when the rule sets no maximum */
+  speedLimit: number | null;
+  zone?: string;
+}
+
+const MOTORWAYS = ['motorway', 'motorway_link'];
+// Only found inside settlements, even where no boundary or zone says so
+const LOCAL_STREETS = ['residential', 'living_street', 'service'];
+// Lit minor roads are almost always streets in a town
+const MINOR_ROADS = ['unclassified', 'tertiary', 'tertiary_link'];
+
+const UNPAVED_SURFACES = new Set([
+  'unpaved', 'compacted', 'gravel', 'fine_gravel', 'pebblestone', 'dirt', 'earth', 'ground', 'grass', 'mud', 'sand',
+]);
+
+/** Starter rule sets for the countries the app is used in. */
+export const DEFAULT_LIMIT_RULES: Record<string, DefaultLimitRule[]> = {
+  // Código da Estrada: 60 in localities, 100 outside, 120 on motorways
+  MZ: [
+    { highway: MOTORWAYS, zone: 'MZ:motorway' },
+    { urban: true, zone: 'MZ:urban' },
+    // Not statutory: rural gravel roads are rarely signed above 80
+    { surface: 'unpaved', speedLimit: 80 },
+    { urban: false, zone: 'MZ:rural' },
+    { highway: LOCAL_STREETS, zone: 'MZ:urban' },
+    { highway: MINOR_ROADS, lit: true, zone: 'MZ:urban' },
+    { zone: 'MZ:rural' },
+  ],
+  // National Road Traffic Regulations, reg. 292: 60 urban, 100 rural, 120 freeway
+  ZA: [
+    { highway: MOTORWAYS, zone: 'ZA:motorway' },
+    { urban: true, zone: 'ZA:urban' },
+    // Not statutory: as for MZ
+    { surface: 'unpaved', speedLimit: 80 },
+    { urban: false, zone: 'ZA:rural' },
+    { highway: LOCAL_STREETS, zone: 'ZA:urban' },
+    { highway: MINOR_ROADS, lit: true, zone: 'ZA:urban' },
+    { zone: 'ZA:rural' },
+  ],
+  // Código da Estrada, art. 27: 50 in localities, 90 outside, 100 on roads
+  // reserved for motor vehicles (dual-carriageway trunks), 120 on motorways
+  PT: [
+    { highway: MOTORWAYS, zone: 'PT:motorway' },
+    { urban: true, zone: 'PT:urban' },
+    { highway: ['trunk'], minLanes: 2, zone: 'PT:trunk' },
+    { urban: false, zone: 'PT:rural' },
+    { highway: LOCAL_STREETS, zone: 'PT:urban' },
+    { highway: MINOR_ROADS, lit: true, zone: 'PT:urban' },
+    { zone: 'PT:rural' },
+  ],
+};
+
+/** By highway class alone, for countries without rules. */
+export const GENERIC_LIMIT_RULES: DefaultLimitRule[] = [
+  { highway: ['motorway'], speedLimit: 120 },
+  { highway: ['trunk'], speedLimit: 100 },
+  { highway: ['primary', 'secondary'], speedLimit: 80 },
+  { highway: ['tertiary'], speedLimit: 60 },
+  { highway: ['unclassified'], speedLimit: 50 },
+  { highway: ['residential'], speedLimit: 40 },
+  { highway: ['service'], speedLimit: 30 },
+  { highway: ['motorway_link'], speedLimit: 80 },
+  { highway: ['trunk_link', 'primary_link'], speedLimit: 60 },
+  { highway: ['secondary_link', 'tertiary_link'], speedLimit: 50 },
+  { speedLimit: 60 },
+];
+
+function yesNo(value: string | undefined): boolean | null {
+  if (value === 'yes') return true;
+  if (value === 'no') return false;
+  return null;
+}
+
+// zone:traffic=PT:urban and the like, which tag a way's context without a limit
+function taggedUrban(tags: Record<string, string>): boolean | null {
+  for (const key of ['zone:traffic', 'zone:maxspeed', 'source:maxspeed', 'maxspeed:type']) {
+    const context = tags[key]?.split(':')[1]?.toLowerCase();
+    if (context === 'urban') return true;
+    if (context === 'rural' || context === 'motorway') return false;
+  }
+  return null;
+}
+
+function lanesPerDirection(tags: Record<string, string>): number | null {
+  const forward = parseInt(tags['lanes:forward'], 10);
+  if (forward > 0) return forward;
+  const total = parseInt(tags.lanes, 10);
+  if (!(total > 0)) return null;
+  return tags.oneway === 'yes' || tags.oneway === '-1' ? total : Math.floor(total / 2);
+}
+
+/**
+ * Context of a way from its tags. `urban` overrides what the tags say, for
+ * callers that know from elsewhere whether the way is in a built-up area.
+ */
+export function roadContext(tags: Record<string, string>, urban?: boolean | null): RoadContext {
+  const surface = tags.surface?.toLowerCase();
+  return {
+    highway: tags.highway ?? '',
+    urban: urban ?? taggedUrban(tags),
+    lanes: lanesPerDirection(tags),
+    lit: yesNo(tags.lit),
+    surface: surface ? (UNPAVED_SURFACES.has(surface) ? 'unpaved' : 'paved') : null,
+  };
+}
+
+function matches(rule: DefaultLimitRule, context: RoadContext) {
+  return (
+    (!rule.highway || rule.highway.includes(context.highway)) &&
+    (rule.urban === undefined || rule.urban === context.urban) &&
+    (rule.minLanes === undefined || (context.lanes ?? 0) >= rule.minLanes) &&
+    (rule.lit === undefined || rule.lit === context.lit) &&
+    (rule.surface === undefined || rule.surface === context.surface)
+  );
+}
+
+/** Limit from the first matching rule of the country, or the generic rules. */
+export function defaultSpeedLimit(context: RoadContext, country?: string): DefaultLimit {
+  const rules = (country && DEFAULT_LIMIT_RULES[country.toUpperCase()]) || GENERIC_LIMIT_RULES;
+  const rule = rules.find((candidate) => matches(candidate, context));
+  if (!rule) return { speedLimit: null };
+  if (rule.zone) return { speedLimit: MAXSPEED_ZONES[rule.zone] ?? null, zone: rule.zone };
+  return { speedLimit: rule.speedLimit ?? null };
+}
@@ -0,0 +1,55 @@
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { correctionStore } from './correctionStore';
+import { ExpoPackFileSystem, PACKS_DIR } from './expoPackFileSystem';
+import { HmmMapMatcher } from './mapMatcher';
+import { RegionPackManager } from './regionPackManager';
+import { MemorySegmentStore, SegmentStore } from './segmentStore';
+import { SpeedLimitService } from './speedLimitService';
+import { SqliteSegmentStore } from './sqliteSegmentStore';
+
+function loadBundledData() {
+  return require('../../assets/data/speedLimits.json');
+}
+
+// Written with the bundle by the fetch script. Keys the SQLite copy on the
+// data itself, so new data is imported even within the same app version.
+function bundledDataChecksum(): string {
+  return require('../../assets/data/speedLimits.sha256.json').sha256;
+}
+
+// SQLite keeps segment data out of memory on device; web has no native SQLite
+function createSegmentStore(
+  databaseName: string,
+  sourceVersion: string,
+  loadSource: () => Promise<unknown> | unknown
+): SegmentStore {
+  if (Platform.OS === 'web') {
+    return new MemorySegmentStore(loadSource);
+  }
+  return new SqliteSegmentStore({ databaseName, sourceVersion, loadSource });
+}
+
+function createRegionPackManager(): RegionPackManager | null {
+  const manifestUrl =
+    process.env.EXPO_PUBLIC_REGION_PACK_MANIFEST_URL || Constants.expoConfig?.extra?.regionPackManifestUrl;
+  return manifestUrl ? new RegionPackManager(manifestUrl, new ExpoPackFileSystem(), PACKS_DIR) : null;
+}
+
+export const speedLimitService = new SpeedLimitService(
+  createSegmentStore('speedLimits.db', `bundled-${bundledDataChecksum()}`, loadBundledData),
+  createRegionPackManager(),
+  new HmmMapMatcher(),
+  createSegmentStore
+);
+
+/** Reloads the driver's corrections into the service, e.g. after reporting one. */
+export async function refreshOverrides(): Promise<void> {
+  try {
+    speedLimitService.setOverrides(await correctionStore.getOverrides());
+  } catch (error) {
+    console.error('❌ Error loading speed limit corrections:', error);
+  }
+}
+
+refreshOverrides();
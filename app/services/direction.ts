@@ -0,0 +1,46 @@
+import * as Turf from '@turf/turf';
+import { SpeedLimitSegment, TravelDirection } from './types';
+
+const ONEWAY_FORWARD = new Set(['yes', 'true', '1']);
+const ONEWAY_BACKWARD = new Set(['-1', 'reverse']);
+
+/** Smallest angle between two bearings, 0-180°. */
+export function bearingDifference(a: number, b: number): number {
+  const diff = Math.abs((((a - b) % 360) + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/** Bearing of the segment piece closest to the point, following geometry order. */
+export function segmentBearingAt(segment: SpeedLimitSegment, longitude: number, latitude: number): number {
+  const line = Turf.lineString(segment.geometry);
+  const nearest = Turf.nearestPointOnLine(line, Turf.point([longitude, latitude]));
+  const index = Math.min(nearest.properties.index ?? 0, segment.geometry.length - 2);
+  return Turf.bearing(Turf.point(segment.geometry[index]), Turf.point(segment.geometry[index + 1]));
+}
+
+/** Which way along the segment a vehicle with this bearing is travelling. */
+export function travelDirection(
+  segment: SpeedLimitSegment,
+  longitude: number,
+  latitude: number,
+  bearing: number
+): TravelDirection {
+  const difference = bearingDifference(segmentBearingAt(segment, longitude, latitude), bearing);
+  return difference <= 90 ? 'forward' : 'backward';
+}
+
+/** Directions traffic may use, from `oneway` and roundabouts. */
+export function allowedDirections(segment: SpeedLimitSegment): TravelDirection[] {
+  const oneway = segment.tags?.oneway?.toLowerCase();
+  if (oneway && ONEWAY_BACKWARD.has(oneway)) return ['backward'];
+  if ((oneway && ONEWAY_FORWARD.has(oneway)) || segment.tags?.junction === 'roundabout') return ['forward'];
+  if (segment.type === 'motorway' && oneway !== 'no') return ['forward']; // Implied by OSM
+  return ['forward', 'backward'];
+}
+
+/** The limit that applies in a direction, falling back to the segment's own. */
+export function directionalSpeedLimit(segment: SpeedLimitSegment, direction: TravelDirection | null): number | null {
+  if (direction === 'forward' && segment.speedLimitForward !== undefined) return segment.speedLimitForward;
+  if (direction === 'backward' && segment.speedLimitBackward !== undefined) return segment.speedLimitBackward;
+  return segment.speedLimit;
+}
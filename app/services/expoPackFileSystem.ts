@@ -0,0 +1,40 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { PackFileSystem } from './regionPackManager';
+
+/** Where region packs are kept on device. */
+export const PACKS_DIR = `${FileSystem.documentDirectory}packs/`;
+
+export class ExpoPackFileSystem implements PackFileSystem {
+  async makeDirectory(path: string): Promise<void> {
+    await FileSystem.makeDirectoryAsync(path, { intermediates: true });
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return (await FileSystem.getInfoAsync(path)).exists;
+  }
+
+  readString(path: string): Promise<string> {
+    return FileSystem.readAsStringAsync(path);
+  }
+
+  writeString(path: string, contents: string): Promise<void> {
+    return FileSystem.writeAsStringAsync(path, contents);
+  }
+
+  move(from: string, to: string): Promise<void> {
+    return FileSystem.moveAsync({ from, to });
+  }
+
+  delete(path: string): Promise<void> {
+    return FileSystem.deleteAsync(path, { idempotent: true });
+  }
+
+  async download(url: string, path: string): Promise<number> {
+    return (await FileSystem.downloadAsync(url, path)).status;
+  }
+
+  sha256(contents: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, contents);
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * UI strings in English and Portuguese. English is the reference catalogue;
+ * every other catalogue must define the same keys, which the type system
+ * checks. Messages take `{name}` placeholders.
+ */
+
+export type Locale = 'en' | 'pt';
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  pt: 'Português',
+};
+
+const en = {
+  debugMode: 'Debug Mode',
+  debugInfo: 'Debug Info',
+  loadingSpeedLimits: 'Loading speed limits...',
+  noLimit: 'No limit',
+  conditionalLimit: 'Conditional limit: {condition}',
+  upcomingLimit: '{limit} in {distance}',
+  currentSpeed: 'CURRENT SPEED',
+  overLimit: 'Over Limit',
+  underLimit: 'Under Limit',
+  slowDown: 'SLOW DOWN!',
+  speedLimitExceeded: 'Speed limit exceeded',
+  openInGoogleMaps: 'Open in Google Maps',
+  openInOpenStreetMap: 'Open in OpenStreetMap',
+  accuracy: 'Accuracy: ',
+  altitude: 'Altitude: ',
+  heading: 'Heading: ',
+  speed: 'Speed: ',
+  notAvailable: 'N/A',
+  roadInformation: 'ROAD INFORMATION',
+  roadName: 'Road Name:',
+  unnamedRoad: 'Unnamed Road',
+  roadType: 'Road Type:',
+  unknown: 'Unknown',
+  speedLimit: 'Speed Limit:',
+  osmMaxspeed: ' (OSM: {maxspeed})',
+  distanceToSegment: 'Distance to Segment:',
+  matchConfidence: 'Match Confidence:',
+  segmentProperties: 'Segment Properties:',
+  locationPermissionDenied: 'Permission to access location was denied',
+  initializationFailed: 'Failed to initialize speed limit service',
+  backgroundTrackingFailed: 'Could not start background tracking',
+  units: 'Units',
+  language: 'Language',
+  automatic: 'Auto',
+  tolerance: 'Tolerance',
+  chime: 'Chime',
+  vibration: 'Vibration',
+  alertWithScreenOff: 'Alert with screen off',
+  notificationTitle: 'Slow down!',
+  notificationBody: '{speed} in a {limit} zone',
+  mapNoRoads: 'No road data around here',
+  reportLimit: 'Report speed limit',
+  reportLimitHint: 'Pick the limit posted on {road}',
+  corrected: 'Corrected',
+  submit: 'Submit',
+  cancel: 'Cancel',
+  removeCorrection: 'Remove my correction',
+  queuedCorrections: '{count} corrections waiting for export',
+  exportCorrections: 'Export for review',
+  exportFailed: 'Export failed',
+  exportCorrectionsTitle: 'Export speed limit corrections',
+  sharingUnavailable: 'Sharing is not available on this device',
+  noCorrectionsToExport: 'No corrections to export',
+  estimated: 'Estimated',
+  limitSource: 'Limit Source:',
+  sourceTag: 'Mapped limit',
+  sourceZone: 'Zone default',
+  sourceClassDefault: 'Road type default',
+  sourceOverride: 'Your correction',
+  sourceFallback: 'Built-in sample data',
+  home: 'Home',
+  trips: 'Trips',
+  noTrips: 'No trips yet. Drives are recorded automatically once you start moving.',
+  recording: 'Recording…',
+  distance: 'Distance',
+  duration: 'Duration',
+  maxSpeed: 'Max speed',
+  averageSpeed: 'Avg speed',
+  timeOverLimit: 'Over limit',
+  violations: 'Violations',
+  tripNotFound: 'Trip not found.',
+  speedChart: 'SPEED',
+  legendSpeed: 'Speed',
+  legendLimit: 'Limit',
+  legendOverLimit: 'Over the limit',
+  worstViolation: 'WORST VIOLATION',
+  violationSpeed: '{speed} in a {limit} zone',
+  violationRoad: ' on {road}',
+  violationDetail: '{time} · {duration} over the limit',
+  byRoad: 'BY ROAD',
+  exportTrip: 'EXPORT',
+  deleteTrip: 'Delete trip',
+  deleteTripMessage: 'This trip and its recorded fixes will be removed.',
+  delete: 'Delete',
+};
+
+export type MessageKey = keyof typeof en;
+
+const pt: Record<MessageKey, string> = {
+  debugMode: 'Modo de depuração',
+  debugInfo: 'Info de depuração',
+  loadingSpeedLimits: 'A carregar limites de velocidade...',
+  noLimit: 'Sem limite',
+  conditionalLimit: 'Limite condicional: {condition}',
+  upcomingLimit: '{limit} a {distance}',
+  currentSpeed: 'VELOCIDADE ATUAL',
+  overLimit: 'Acima do limite',
+  underLimit: 'Abaixo do limite',
+  slowDown: 'ABRANDE!',
+  speedLimitExceeded: 'Limite de velocidade excedido',
+  openInGoogleMaps: 'Abrir no Google Maps',
+  openInOpenStreetMap: 'Abrir no OpenStreetMap',
+  accuracy: 'Precisão: ',
+  altitude: 'Altitude: ',
+  heading: 'Rumo: ',
+  speed: 'Velocidade: ',
+  notAvailable: 'N/D',
+  roadInformation: 'INFORMAÇÃO DA ESTRADA',
+  roadName: 'Nome da estrada:',
+  unnamedRoad: 'Estrada sem nome',
+  roadType: 'Tipo de estrada:',
+  unknown: 'Desconhecido',
+  speedLimit: 'Limite de velocidade:',
+  osmMaxspeed: ' (OSM: {maxspeed})',
+  distanceToSegment: 'Distância ao segmento:',
+  matchConfidence: 'Confiança da correspondência:',
+  segmentProperties: 'Propriedades do segmento:',
+  locationPermissionDenied: 'A permissão de acesso à localização foi recusada',
+  initializationFailed: 'Falha ao iniciar o serviço de limites de velocidade',
+  backgroundTrackingFailed: 'Não foi possível iniciar o seguimento em segundo plano',
+  units: 'Unidades',
+  language: 'Idioma',
+  automatic: 'Auto',
+  tolerance: 'Tolerância',
+  chime: 'Sinal sonoro',
+  vibration: 'Vibração',
+  alertWithScreenOff: 'Alertar com o ecrã desligado',
+  notificationTitle: 'Abrande!',
+  notificationBody: '{speed} numa zona de {limit}',
+  mapNoRoads: 'Sem dados de estradas nesta zona',
+  reportLimit: 'Reportar limite de velocidade',
+  reportLimitHint: 'Escolha o limite sinalizado em {road}',
+  corrected: 'Corrigido',
+  submit: 'Enviar',
+  cancel: 'Cancelar',
+  removeCorrection: 'Remover a minha correção',
+  queuedCorrections: '{count} correções por exportar',
+  exportCorrections: 'Exportar para revisão',
+  exportFailed: 'Falha na exportação',
+  exportCorrectionsTitle: 'Exportar correções de limites de velocidade',
+  sharingUnavailable: 'A partilha não está disponível neste dispositivo',
+  noCorrectionsToExport: 'Não há correções para exportar',
+  estimated: 'Estimado',
+  limitSource: 'Origem do limite:',
+  sourceTag: 'Limite mapeado',
+  sourceZone: 'Predefinição da zona',
+  sourceClassDefault: 'Predefinição do tipo de estrada',
+  sourceOverride: 'A sua correção',
+  sourceFallback: 'Dados de exemplo incorporados',
+  home: 'Início',
+  trips: 'Viagens',
+  noTrips: 'Ainda não há viagens. São gravadas automaticamente quando começa a andar.',
+  recording: 'A gravar…',
+  distance: 'Distância',
+  duration: 'Duração',
+  maxSpeed: 'Velocidade máx.',
+  averageSpeed: 'Velocidade média',
+  timeOverLimit: 'Acima do limite',
+  violations: 'Infrações',
+  tripNotFound: 'Viagem não encontrada.',
+  speedChart: 'VELOCIDADE',
+  legendSpeed: 'Velocidade',
+  legendLimit: 'Limite',
+  legendOverLimit: 'Acima do limite',
+  worstViolation: 'PIOR INFRAÇÃO',
+  violationSpeed: '{speed} numa zona de {limit}',
+  violationRoad: ' em {road}',
+  violationDetail: '{time} · {duration} acima do limite',
+  byRoad: 'POR ESTRADA',
+  exportTrip: 'EXPORTAR',
+  deleteTrip: 'Apagar viagem',
+  deleteTripMessage: 'Esta viagem e as posições gravadas serão removidas.',
+  delete: 'Apagar',
+};
+
+const CATALOGUES: Record<Locale, Record<MessageKey, string>> = { en, pt };
+
+/** BCP 47 tag of the device's locale, e.g. "pt-MZ". */
+export function deviceLocaleTag(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale;
+  } catch {
+    return 'en';
+  }
+}
+
+/** The chosen UI language, or the device's when it has a catalogue. */
+export function resolveLocale(preferred: Locale | null, localeTag = deviceLocaleTag()): Locale {
+  if (preferred) return preferred;
+  const language = localeTag.split(/[-_]/)[0].toLowerCase();
+  return language in CATALOGUES ? (language as Locale) : 'en';
+}
+
+/**
+ * Tag for number formatting: the device's own when it speaks the UI
+ * language (so pt-MZ keeps its conventions), the language's otherwise.
+ */
+export function formattingTag(locale: Locale, localeTag = deviceLocaleTag()): string {
+  return localeTag.split(/[-_]/)[0].toLowerCase() === locale ? localeTag : locale;
+}
+
+export function translate(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const message = CATALOGUES[locale][key] ?? en[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+}
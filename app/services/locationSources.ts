@@ -0,0 +1,225 @@
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system';
+import * as Location from 'expo-location';
+import { TracePoint, parseTrace } from './traceParsers';
+
+/**
+ * Where fixes come from. The screen drives the same pipeline from the real
+ * GPS or from a recorded trace, so problems seen on the road can be replayed
+ * deterministically: replayed fixes keep the trace's own timestamps.
+ */
+
+export interface LocationHandlers {
+  onLocation: (location: Location.LocationObject) => void;
+  /** The source jumped, e.g. a replay seek; state built from earlier fixes is stale */
+  onReset?: () => void;
+}
+
+export interface LocationSource {
+  readonly kind: 'gps' | 'replay';
+  start(handlers: LocationHandlers): Promise<void>;
+  stop(): void;
+}
+
+export class GpsLocationSource implements LocationSource {
+  readonly kind = 'gps';
+  private subscription: Location.LocationSubscription | null = null;
+
+  async start({ onLocation }: LocationHandlers): Promise<void> {
+    this.stop();
+    this.subscription = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.High,
+        distanceInterval: 1, // More sensitive updates
+        timeInterval: 1000,
+      },
+      onLocation
+    );
+  }
+
+  stop() {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+}
+
+export type ReplayRate = 1 | 5 | 10;
+
+export interface ReplayState {
+  playing: boolean;
+  rate: ReplayRate;
+  /** ms into the trace */
+  position: number;
+  /** ms */
+  duration: number;
+}
+
+export function traceToLocation(point: TracePoint): Location.LocationObject {
+  return {
+    coords: {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      altitude: point.altitude,
+      accuracy: point.accuracy,
+      altitudeAccuracy: null,
+      heading: point.heading,
+      speed: point.speed,
+    },
+    timestamp: point.time,
+  };
+}
+
+/** Plays a trace back in real time, or 5x/10x faster, with pause and seek. */
+export class ReplayLocationSource implements LocationSource {
+  readonly kind = 'replay';
+  private handlers: LocationHandlers | null = null;
+  private readonly listeners = new Set<(state: ReplayState) => void>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private index = 0;
+  private playing = false;
+  private rate: ReplayRate = 1;
+
+  constructor(private readonly points: TracePoint[]) {
+    if (points.length === 0) {
+      throw new Error('Cannot replay an empty trace');
+    }
+  }
+
+  get state(): ReplayState {
+    const first = this.points[0].time;
+    const current = this.points[Math.min(this.index, this.points.length - 1)];
+    return {
+      playing: this.playing,
+      rate: this.rate,
+      position: current.time - first,
+      duration: this.points[this.points.length - 1].time - first,
+    };
+  }
+
+  subscribe(listener: (state: ReplayState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async start(handlers: LocationHandlers): Promise<void> {
+    this.handlers = handlers;
+    this.index = 0;
+    handlers.onReset?.();
+    this.play();
+  }
+
+  stop() {
+    this.pause();
+    this.handlers = null;
+  }
+
+  play() {
+    if (this.playing || !this.handlers) return;
+    if (this.index >= this.points.length) {
+      this.index = 0; // Replay from the start once finished
+      this.handlers.onReset?.();
+    }
+    this.playing = true;
+    this.step();
+  }
+
+  pause() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.playing = false;
+    this.notify();
+  }
+
+  setRate(rate: ReplayRate) {
+    this.rate = rate;
+    if (this.playing) {
+      if (this.timer) clearTimeout(this.timer);
+      this.schedule();
+    }
+    this.notify();
+  }
+
+  /** Jumps to `position` ms into the trace and shows the fix there. */
+  seek(position: number) {
+    const target = this.points[0].time + position;
+    const index = this.points.findIndex((point) => point.time >= target);
+    this.index = index === -1 ? this.points.length - 1 : index;
+    this.handlers?.onReset?.();
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.playing) {
+      this.step();
+    } else {
+      this.emit();
+      this.notify();
+    }
+  }
+
+  // Emits the current fix and waits the trace's own interval for the next
+  private step() {
+    this.timer = null;
+    this.emit();
+    this.index++;
+    if (this.index >= this.points.length) {
+      this.playing = false;
+    } else {
+      this.schedule();
+    }
+    this.notify();
+  }
+
+  private schedule() {
+    const previous = this.points[this.index - 1];
+    const delay = previous ? (this.points[this.index].time - previous.time) / this.rate : 0;
+    this.timer = setTimeout(() => this.step(), delay);
+  }
+
+  private emit() {
+    const point = this.points[Math.min(this.index, this.points.length - 1)];
+    this.handlers?.onLocation(traceToLocation(point));
+  }
+
+  private notify() {
+    const state = this.state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+export interface TraceInfo {
+  id: string;
+  name: string;
+  /** Bundled asset module, from require() */
+  asset: number;
+  fileName: string;
+}
+
+/** Traces shipped with the app for debug mode. */
+export const BUNDLED_TRACES: TraceInfo[] = [
+  {
+    id: 'n1-northbound-gpx',
+    name: 'N1 northbound (GPX)',
+    // eslint-disable-next-line @typescript-eslint/no-require-imports -- asset extension added in metro.config.js
+    asset: require('../../assets/traces/n1-northbound.gpx'),
+    fileName: 'n1-northbound.gpx',
+  },
+  {
+    id: 'n1-northbound-nmea',
+    name: 'N1 northbound (NMEA)',
+    // eslint-disable-next-line @typescript-eslint/no-require-imports -- asset extension added in metro.config.js
+    asset: require('../../assets/traces/n1-northbound.nmea'),
+    fileName: 'n1-northbound.nmea',
+  },
+];
+
+export async function loadBundledTrace(trace: TraceInfo): Promise<TracePoint[]> {
+  const [asset] = await Asset.loadAsync(trace.asset);
+  const text = await FileSystem.readAsStringAsync(asset.localUri ?? asset.uri);
+  return parseTrace(text, trace.fileName);
+}
+
+export async function loadTraceFile(uri: string, fileName: string): Promise<TracePoint[]> {
+  return parseTrace(await FileSystem.readAsStringAsync(uri), fileName);
+}
@@ -0,0 +1,97 @@
+import * as Turf from '@turf/turf';
+import { bearingDifference } from './direction';
+import { GraphPosition, RoadGraph, SegmentExit } from './roadGraph';
+import { SpeedLimitSegment, TravelDirection } from './types';
+
+/**
+ * Predicts the road ahead of the vehicle so upcoming limit changes can be
+ * announced before the segment is entered. At every junction the path keeps
+ * to the same road (name or ref) if possible, otherwise takes the straightest
+ * exit; it stops where no exit is a plausible continuation.
+ */
+
+export interface PathStep extends SegmentExit {
+  /** km from the starting position to where the segment is entered */
+  distance: number;
+}
+
+// Sharper turns off a different road are too uncertain to predict
+const MAX_TURN_DEGREES = 60;
+
+function pieceKm(segment: SpeedLimitSegment, i: number) {
+  return Turf.distance(Turf.point(segment.geometry[i]), Turf.point(segment.geometry[i + 1]), { units: 'kilometers' });
+}
+
+// km driven on a segment entered at `vertexIndex` until its end in `direction`
+function kmToEnd(segment: SpeedLimitSegment, vertexIndex: number, direction: TravelDirection) {
+  let km = 0;
+  if (direction === 'forward') {
+    for (let i = vertexIndex; i < segment.geometry.length - 1; i++) km += pieceKm(segment, i);
+  } else {
+    for (let i = 0; i < vertexIndex; i++) km += pieceKm(segment, i);
+  }
+  return km;
+}
+
+function pieceBearing(segment: SpeedLimitSegment, from: number, to: number) {
+  return Turf.bearing(Turf.point(segment.geometry[from]), Turf.point(segment.geometry[to]));
+}
+
+// Bearing when leaving a segment at its end in `direction`
+function exitBearing(segment: SpeedLimitSegment, direction: TravelDirection) {
+  const last = segment.geometry.length - 1;
+  return direction === 'forward' ? pieceBearing(segment, last - 1, last) : pieceBearing(segment, 1, 0);
+}
+
+// Bearing when entering a segment at `vertexIndex` in `direction`
+function entryBearing({ segment, vertexIndex, direction }: SegmentExit) {
+  return direction === 'forward'
+    ? pieceBearing(segment, vertexIndex, vertexIndex + 1)
+    : pieceBearing(segment, vertexIndex, vertexIndex - 1);
+}
+
+// By the raw tags: `name` is filled with a placeholder for unnamed roads, and
+// two unnamed roads are not the same road
+function sameRoad(a: SpeedLimitSegment, b: SpeedLimitSegment) {
+  const ref = a.tags?.ref;
+  const name = a.tags?.name;
+  return (!!ref && ref === b.tags?.ref) || (!!name && name === b.tags?.name);
+}
+
+function likelyExit(from: SpeedLimitSegment, direction: TravelDirection, exits: SegmentExit[]): SegmentExit | null {
+  const bearing = exitBearing(from, direction);
+  let best: { exit: SegmentExit; turn: number; same: boolean } | null = null;
+  for (const exit of exits) {
+    const turn = bearingDifference(bearing, entryBearing(exit));
+    const same = sameRoad(from, exit.segment);
+    if (!best || (same && !best.same) || (same === best.same && turn < best.turn)) {
+      best = { exit, turn, same };
+    }
+  }
+  if (!best || (!best.same && best.turn > MAX_TURN_DEGREES)) return null;
+  return best.exit;
+}
+
+/** Most likely segments ahead of a position, up to `maxKm` away. */
+export function predictPath(graph: RoadGraph, start: GraphPosition, maxKm: number): PathStep[] {
+  if (!start.direction) return [];
+
+  const path: PathStep[] = [];
+  const visited = new Set([String(start.segment.id)]);
+  let segment = start.segment;
+  let direction = start.direction;
+  let distance = direction === 'forward' ? Turf.length(Turf.lineString(segment.geometry)) - start.along : start.along;
+
+  while (distance <= maxKm) {
+    const exits = graph.exits(segment.id, direction).filter((exit) => !visited.has(String(exit.segment.id)));
+    const next = likelyExit(segment, direction, exits);
+    if (!next) break;
+
+    path.push({ ...next, distance });
+    visited.add(String(next.segment.id));
+    segment = next.segment;
+    direction = next.direction;
+    distance += kmToEnd(segment, next.vertexIndex, direction);
+  }
+  return path;
+}
@@ -0,0 +1,190 @@
+import * as Turf from '@turf/turf';
+import { allowedDirections } from './direction';
+import { segmentNodeKeys } from './roadGraph';
+import { SpeedLimitSegment, TravelDirection } from './types';
+
+/**
+ * Online Hidden Markov Model map matcher, after Newson & Krumm (2009).
+ *
+ * Each fix keeps the segments near it as candidate states. Emission scores
+ * come from the distance between the fix and the candidate, transition scores
+ * from how well the distance between two fixes agrees with the distance
+ * between their candidates along the road. Viterbi over a short window of
+ * recent fixes then picks the current segment, so a single noisy fix next to
+ * a parallel road is no longer enough to switch to it.
+ */
+
+export interface MatchCandidate {
+  segment: SpeedLimitSegment;
+  /** km from the fix to the segment */
+  distance: number;
+  /** Fix snapped onto the segment, [lon, lat] */
+  snapped: [number, number];
+  /** km along the segment's geometry to the snapped point */
+  along: number;
+  direction: TravelDirection | null;
+}
+
+export interface MatchFix {
+  longitude: number;
+  latitude: number;
+  /** Horizontal accuracy in metres, when known */
+  accuracy?: number | null;
+  timestamp?: number;
+}
+
+export interface MatchResult {
+  candidate: MatchCandidate;
+  /** Posterior probability of the match among the current candidates, 0-1 */
+  confidence: number;
+}
+
+export interface MapMatcherOptions {
+  /** Fixes kept for Viterbi; 1 degrades to nearest-segment snapping */
+  windowSize?: number;
+  /** Lower bound of the GPS noise standard deviation, metres */
+  minSigmaMeters?: number;
+  /** Scale of the transition distance mismatch, metres */
+  betaMeters?: number;
+  /** Log-probability cost of moving between segments that don't touch */
+  disconnectedPenalty?: number;
+  /** Log-probability cost of driving against a one-way */
+  wrongWayPenalty?: number;
+  /** Window restarts after a gap this long, ms */
+  maxGapMs?: number;
+}
+
+interface Step {
+  fix: MatchFix;
+  candidates: MatchCandidate[];
+  emissions: number[];
+}
+
+function logSumExp(values: number[]) {
+  const max = Math.max(...values);
+  if (max === -Infinity) return -Infinity;
+  return max + Math.log(values.reduce((sum, value) => sum + Math.exp(value - max), 0));
+}
+
+function distanceMeters(a: [number, number], b: [number, number]) {
+  return Turf.distance(Turf.point(a), Turf.point(b), { units: 'kilometers' }) * 1000;
+}
+
+export class HmmMapMatcher {
+  private readonly options: Required<MapMatcherOptions>;
+  private window: Step[] = [];
+  private connections = new Map<string, boolean>();
+
+  constructor(options: MapMatcherOptions = {}) {
+    this.options = {
+      windowSize: 6,
+      minSigmaMeters: 4,
+      betaMeters: 10,
+      disconnectedPenalty: 3,
+      wrongWayPenalty: 4,
+      maxGapMs: 30000,
+      ...options,
+    };
+  }
+
+  reset() {
+    this.window = [];
+  }
+
+  update(fix: MatchFix, candidates: MatchCandidate[]): MatchResult | null {
+    const previous = this.window[this.window.length - 1];
+    if (
+      candidates.length === 0 ||
+      (previous?.fix.timestamp && fix.timestamp && fix.timestamp - previous.fix.timestamp > this.options.maxGapMs)
+    ) {
+      this.reset();
+      if (candidates.length === 0) return null;
+    }
+
+    this.window.push({ fix, candidates, emissions: candidates.map((c) => this.emission(fix, c)) });
+    if (this.window.length > this.options.windowSize) {
+      this.window.shift();
+    }
+
+    // Viterbi picks the best path; the forward pass gives the confidence
+    let viterbi = this.window[0].emissions.slice();
+    let forward = this.window[0].emissions.slice();
+    for (let t = 1; t < this.window.length; t++) {
+      const from = this.window[t - 1];
+      const to = this.window[t];
+      const nextViterbi: number[] = [];
+      const nextForward: number[] = [];
+      to.candidates.forEach((candidate, j) => {
+        const transitions = from.candidates.map((prev) => this.transition(from.fix, prev, to.fix, candidate));
+        nextViterbi.push(to.emissions[j] + Math.max(...viterbi.map((score, i) => score + transitions[i])));
+        nextForward.push(to.emissions[j] + logSumExp(forward.map((score, i) => score + transitions[i])));
+      });
+      viterbi = nextViterbi;
+      forward = nextForward;
+    }
+
+    const current = this.window[this.window.length - 1];
+    const best = viterbi.indexOf(Math.max(...viterbi));
+    const total = logSumExp(forward);
+    return {
+      candidate: current.candidates[best],
+      confidence: total === -Infinity ? 0 : Math.exp(forward[best] - total),
+    };
+  }
+
+  private emission(fix: MatchFix, candidate: MatchCandidate): number {
+    const sigma = Math.max(this.options.minSigmaMeters, Math.min(fix.accuracy ?? 0, 25));
+    const meters = candidate.distance * 1000;
+    let score = -0.5 * (meters / sigma) ** 2;
+    if (candidate.direction && !allowedDirections(candidate.segment).includes(candidate.direction)) {
+      score -= this.options.wrongWayPenalty;
+    }
+    return score;
+  }
+
+  private transition(fromFix: MatchFix, from: MatchCandidate, toFix: MatchFix, to: MatchCandidate): number {
+    const straight = distanceMeters([fromFix.longitude, fromFix.latitude], [toFix.longitude, toFix.latitude]);
+    let route: number;
+    let penalty = 0;
+    if (from.segment.id === to.segment.id) {
+      route = Math.abs(to.along - from.along) * 1000;
+    } else {
+      route = distanceMeters(from.snapped, to.snapped);
+      if (!this.connected(from.segment, to.segment)) penalty = this.options.disconnectedPenalty;
+    }
+    return -Math.abs(straight - route) / this.options.betaMeters - penalty;
+  }
+
+  // Ways connect where they share a node
+  private connected(a: SpeedLimitSegment, b: SpeedLimitSegment): boolean {
+    const [first, second] = [String(a.id), String(b.id)].sort();
+    const key = `${first}|${second}`;
+    let connected = this.connections.get(key);
+    if (connected === undefined) {
+      const nodes = new Set(segmentNodeKeys(a));
+      connected = segmentNodeKeys(b).some((key) => nodes.has(key));
+      if (this.connections.size > 5000) this.connections.clear();
+      this.connections.set(key, connected);
+    }
+    return connected;
+  }
+}
+
+/** Candidate state for a segment near a fix. */
+export function matchCandidate(
+  segment: SpeedLimitSegment,
+  longitude: number,
+  latitude: number,
+  direction: TravelDirection | null
+): MatchCandidate {
+  const nearest = Turf.nearestPointOnLine(Turf.lineString(segment.geometry), Turf.point([longitude, latitude]), {
+    units: 'kilometers',
+  });
+  return {
+    segment,
+    distance: nearest.properties.dist ?? Infinity,
+    snapped: nearest.geometry.coordinates as [number, number],
+    along: nearest.properties.location ?? 0,
+    direction,
+  };
+}
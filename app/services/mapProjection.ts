@@ -0,0 +1,169 @@
+import { BBox } from './spatialIndex';
+import { SpeedLimitSegment } from './types';
+
+/**
+ * Projection and clipping for the offline segment map. Coordinates go
+ * through spherical Web Mercator into screen pixels around a centre point,
+ * then every polyline is clipped to the view. Pure, so the drawing can be
+ * checked without a renderer.
+ */
+
+export type ScreenPoint = [number, number];
+
+export interface Viewport {
+  /** [lon, lat] shown in the middle of the view */
+  center: [number, number];
+  /** Ground distance covered by one pixel at the centre */
+  metersPerPixel: number;
+  width: number;
+  height: number;
+}
+
+export interface ProjectedSegment {
+  segment: SpeedLimitSegment;
+  /** Visible parts of the segment, in pixels */
+  paths: ScreenPoint[][];
+}
+
+const EARTH_RADIUS_M = 6378137;
+// Web Mercator stops at about ±85°
+const MAX_LATITUDE = 85.05112878;
+
+/** Spherical Web Mercator (EPSG:3857) metres. */
+export function mercator([longitude, latitude]: [number, number]): ScreenPoint {
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude));
+  return [
+    EARTH_RADIUS_M * ((longitude * Math.PI) / 180),
+    EARTH_RADIUS_M * Math.log(Math.tan(Math.PI / 4 + (clamped * Math.PI) / 360)),
+  ];
+}
+
+/** Viewport that shows at least `radiusKm` around `center` in both directions. */
+export function viewportAround(center: [number, number], radiusKm: number, width: number, height: number): Viewport {
+  return { center, metersPerPixel: (radiusKm * 2000) / Math.max(1, Math.min(width, height)), width, height };
+}
+
+/** A projector from [lon, lat] to pixels, y pointing down. */
+export function screenProjector(viewport: Viewport): (coordinate: [number, number]) => ScreenPoint {
+  const [centerX, centerY] = mercator(viewport.center);
+  // Mercator stretches ground distances by 1 / cos(latitude)
+  const scale = Math.cos((viewport.center[1] * Math.PI) / 180) / viewport.metersPerPixel;
+  return (coordinate) => {
+    const [x, y] = mercator(coordinate);
+    return [viewport.width / 2 + (x - centerX) * scale, viewport.height / 2 - (y - centerY) * scale];
+  };
+}
+
+/** [west, south, east, north] of the area the viewport shows. */
+export function viewportBBox(viewport: Viewport): BBox {
+  const [lon, lat] = viewport.center;
+  const halfWidth = (viewport.width / 2) * viewport.metersPerPixel;
+  const halfHeight = (viewport.height / 2) * viewport.metersPerPixel;
+  const dLat = (halfHeight / EARTH_RADIUS_M) * (180 / Math.PI);
+  const dLon = (halfWidth / (EARTH_RADIUS_M * Math.cos((lat * Math.PI) / 180))) * (180 / Math.PI);
+  return [lon - dLon, lat - dLat, lon + dLon, lat + dLat];
+}
+
+/**
+ * Liang–Barsky: the part of the line from `a` to `b` inside the rectangle,
+ * or null when it misses it.
+ */
+export function clipLine(
+  a: ScreenPoint,
+  b: ScreenPoint,
+  [minX, minY, maxX, maxY]: [number, number, number, number]
+): [ScreenPoint, ScreenPoint] | null {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [
+    [-dx, a[0] - minX],
+    [dx, maxX - a[0]],
+    [-dy, a[1] - minY],
+    [dy, maxY - a[1]],
+  ];
+
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null; // Parallel to and outside this edge
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return null;
+      t0 = Math.max(t0, t);
+    } else {
+      if (t < t0) return null;
+      t1 = Math.min(t1, t);
+    }
+  }
+  return [
+    [a[0] + t0 * dx, a[1] + t0 * dy],
+    [a[0] + t1 * dx, a[1] + t1 * dy],
+  ];
+}
+
+/**
+ * Parts of a polyline inside the rectangle. A line that leaves and comes
+ * back is split so no edge is drawn along the border.
+ */
+export function clipPolyline(
+  points: ScreenPoint[],
+  rect: [number, number, number, number]
+): ScreenPoint[][] {
+  const paths: ScreenPoint[][] = [];
+  let current: ScreenPoint[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const clipped = clipLine(points[i - 1], points[i], rect);
+    if (!clipped) {
+      if (current.length > 0) paths.push(current);
+      current = [];
+      continue;
+    }
+    const [start, end] = clipped;
+    const last = current[current.length - 1];
+    if (!last || last[0] !== start[0] || last[1] !== start[1]) {
+      if (current.length > 0) paths.push(current);
+      current = [start];
+    }
+    current.push(end);
+    // Leaving the view ends this part
+    if (end[0] !== points[i][0] || end[1] !== points[i][1]) {
+      paths.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) paths.push(current);
+  return paths;
+}
+
+/** Segments in pixels, clipped to the view plus `margin` pixels for line caps. */
+export function projectSegments(segments: SpeedLimitSegment[], viewport: Viewport, margin = 4): ProjectedSegment[] {
+  const project = screenProjector(viewport);
+  const rect: [number, number, number, number] = [-margin, -margin, viewport.width + margin, viewport.height + margin];
+  const projected: ProjectedSegment[] = [];
+  for (const segment of segments) {
+    const paths = clipPolyline(segment.geometry.map(project), rect);
+    if (paths.length > 0) projected.push({ segment, paths });
+  }
+  return projected;
+}
+
+/** Upper bounds of the limit colour bands, km/h, with the colour drawn. */
+export const LIMIT_COLORS: { maxLimit: number; color: string }[] = [
+  { maxLimit: 30, color: '#27ae60' },
+  { maxLimit: 50, color: '#16a085' },
+  { maxLimit: 60, color: '#f1c40f' },
+  { maxLimit: 80, color: '#e67e22' },
+  { maxLimit: 100, color: '#e74c3c' },
+  { maxLimit: Infinity, color: '#8e44ad' },
+];
+
+export const NO_LIMIT_COLOR = '#95a5a6';
+
+export function limitColor(speedLimit: number | null): string {
+  if (speedLimit === null) return NO_LIMIT_COLOR;
+  return LIMIT_COLORS.find((band) => speedLimit <= band.maxLimit)!.color;
+}
@@ -0,0 +1,210 @@
+/**
+ * Parser for OSM `maxspeed` values, shared by the fetch script and the app.
+ * All speeds come out in km/h.
+ *
+ *   "50"            -> 50
+ *   "30 mph"        -> 48.28
+ *   "10 knots"      -> 18.52
+ *   "walk"          -> 6
+ *   "none"          -> no maximum
+ *   "PT:urban"      -> 50, via MAXSPEED_ZONES
+ *   "DE:zone30"     -> 30
+ *   "50;30"         -> 30, the most restrictive value
+ */
+
+export type MaxspeedKind = 'numeric' | 'zone' | 'walk' | 'none' | 'variable';
+
+export interface ParsedMaxspeed {
+  kind: MaxspeedKind;
+  /** km/h, or null when there is no fixed maximum ("none", "signals") */
+  speedLimit: number | null;
+  /** Implicit zone code when the value was one, e.g. "MZ:rural" */
+  zone?: string;
+}
+
+export interface ConditionalSpeedLimit {
+  speedLimit: number | null;
+  /** Condition as tagged, without the parentheses, e.g. "Mo-Fr 07:00-17:00" */
+  condition: string;
+  direction?: 'forward' | 'backward';
+}
+
+export interface MaxspeedTags {
+  speedLimit?: number | null;
+  speedLimitForward?: number | null;
+  speedLimitBackward?: number | null;
+  conditionalLimits?: ConditionalSpeedLimit[];
+  zone?: string;
+}
+
+export const KMH_PER_MPH = 1.609344;
+export const KMH_PER_KNOT = 1.852;
+export const WALKING_SPEED_KMH = 6;
+
+/** Statutory limits for implicit `maxspeed` zone codes, in km/h. */
+export const MAXSPEED_ZONES: Record<string, number | null> = {
+  'MZ:urban': 60,
+  'MZ:rural': 100,
+  'MZ:motorway': 120,
+  'PT:urban': 50,
+  'PT:rural': 90,
+  'PT:trunk': 100,
+  'PT:motorway': 120,
+  'ZA:urban': 60,
+  'ZA:rural': 100,
+  'ZA:motorway': 120,
+  'ES:urban': 50,
+  'ES:rural': 90,
+  'ES:motorway': 120,
+  'FR:urban': 50,
+  'FR:rural': 80,
+  'FR:trunk': 110,
+  'FR:motorway': 130,
+  'DE:urban': 50,
+  'DE:rural': 100,
+  'DE:motorway': null,
+  'GB:nsl_single': 60 * KMH_PER_MPH,
+  'GB:nsl_dual': 70 * KMH_PER_MPH,
+  'GB:motorway': 70 * KMH_PER_MPH,
+};
+
+const UNIT_FACTORS: Record<string, number> = {
+  'km/h': 1,
+  kmh: 1,
+  kph: 1,
+  mph: KMH_PER_MPH,
+  knots: KMH_PER_KNOT,
+  knot: KMH_PER_KNOT,
+  kn: KMH_PER_KNOT,
+};
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function parseSingle(raw: string): ParsedMaxspeed | null {
+  const value = raw.trim();
+  const lower = value.toLowerCase();
+  if (!value) return null;
+
+  if (lower === 'none' || lower === 'unlimited') return { kind: 'none', speedLimit: null };
+  if (lower === 'walk') return { kind: 'walk', speedLimit: WALKING_SPEED_KMH };
+  if (lower === 'signals' || lower === 'variable') return { kind: 'variable', speedLimit: null };
+
+  const numeric = value.match(/^(\d+(?:\.\d+)?)\s*([a-z/]+)?$/i);
+  if (numeric) {
+    const factor = UNIT_FACTORS[(numeric[2] || 'km/h').toLowerCase()];
+    if (!factor) return null;
+    return { kind: 'numeric', speedLimit: round(parseFloat(numeric[1]) * factor) };
+  }
+
+  const zone = value.match(/^([A-Z]{2}(?:-[A-Z0-9]+)?):([a-z_0-9:]+)$/i);
+  if (zone) {
+    const code = `${zone[1].toUpperCase()}:${zone[2].toLowerCase()}`;
+    if (code in MAXSPEED_ZONES) {
+      const speedLimit = MAXSPEED_ZONES[code];
+      if (speedLimit === null) return { kind: 'none', speedLimit: null, zone: code };
+      return { kind: 'zone', speedLimit: round(speedLimit), zone: code };
+    }
+    // Zones like "DE:zone30" or "DE:zone:30" carry their own limit
+    const zoneNumber = zone[2].match(/^zone:?(\d+)$/i);
+    if (zoneNumber) return { kind: 'zone', speedLimit: parseInt(zoneNumber[1], 10), zone: code };
+    if (zone[2].toLowerCase() === 'living_street') return { kind: 'zone', speedLimit: WALKING_SPEED_KMH, zone: code };
+  }
+
+  return null;
+}
+
+/** Parses a `maxspeed` value. Semicolon lists resolve to their most restrictive entry. */
+export function parseMaxspeed(value: string | number | null | undefined): ParsedMaxspeed | null {
+  if (value === null || value === undefined) return null;
+  const parts = String(value).split(';').map(parseSingle).filter((part): part is ParsedMaxspeed => !!part);
+  if (parts.length === 0) return null;
+
+  return parts.reduce((strictest, part) => {
+    if (part.speedLimit === null) return strictest;
+    if (strictest.speedLimit === null || part.speedLimit < strictest.speedLimit) return part;
+    return strictest;
+  });
+}
+
+// Splits on semicolons that are not inside parentheses
+function splitConditional(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ';' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/** Parses `maxspeed:conditional`, e.g. "30 @ (Mo-Fr 07:00-17:00); 80 @ wet". */
+export function parseConditionalMaxspeed(
+  value: string | null | undefined,
+  direction?: 'forward' | 'backward'
+): ConditionalSpeedLimit[] {
+  if (!value) return [];
+  const limits: ConditionalSpeedLimit[] = [];
+
+  for (const part of splitConditional(value)) {
+    const at = part.indexOf('@');
+    if (at === -1) continue;
+    const parsed = parseMaxspeed(part.slice(0, at));
+    let condition = part.slice(at + 1).trim();
+    if (condition.startsWith('(') && condition.endsWith(')')) {
+      condition = condition.slice(1, -1).trim();
+    }
+    if (!parsed || !condition) continue;
+    limits.push({ speedLimit: parsed.speedLimit, condition, ...(direction && { direction }) });
+  }
+  return limits;
+}
+
+/**
+ * Structured limits from a way's tags. Only keys that are tagged are present;
+ * a way with only directional limits gets the stricter one as its speedLimit.
+ */
+export function parseMaxspeedTags(tags: Record<string, string> | undefined): MaxspeedTags {
+  if (!tags) return {};
+  const result: MaxspeedTags = {};
+
+  const main = parseMaxspeed(tags.maxspeed);
+  if (main) {
+    result.speedLimit = main.speedLimit;
+    if (main.zone) result.zone = main.zone;
+  } else if (tags['maxspeed:type'] || tags['source:maxspeed']) {
+    // Untagged value but a known zone, e.g. source:maxspeed=PT:urban
+    const zone = parseMaxspeed(tags['maxspeed:type'] || tags['source:maxspeed']);
+    if (zone?.zone) {
+      result.speedLimit = zone.speedLimit;
+      result.zone = zone.zone;
+    }
+  }
+
+  const forward = parseMaxspeed(tags['maxspeed:forward']);
+  const backward = parseMaxspeed(tags['maxspeed:backward']);
+  if (forward) result.speedLimitForward = forward.speedLimit;
+  if (backward) result.speedLimitBackward = backward.speedLimit;
+  if (result.speedLimit === undefined && (forward || backward)) {
+    const directional = [forward?.speedLimit, backward?.speedLimit].filter((v): v is number => typeof v === 'number');
+    result.speedLimit = directional.length > 0 ? Math.min(...directional) : null;
+  }
+
+  const conditionalLimits = [
+    ...parseConditionalMaxspeed(tags['maxspeed:conditional']),
+    ...parseConditionalMaxspeed(tags['maxspeed:forward:conditional'], 'forward'),
+    ...parseConditionalMaxspeed(tags['maxspeed:backward:conditional'], 'backward'),
+  ];
+  if (conditionalLimits.length > 0) result.conditionalLimits = conditionalLimits;
+
+  return result;
+}
@@ -0,0 +1,98 @@
+/**
+ * Overspeed alert state machine. Pure, so it can be stepped with recorded
+ * speeds in tests or scripts; the app turns its events into chimes and haptics.
+ *
+ *   ok ──over threshold──▶ pending ──for minDurationMs──▶ alerting
+ *    ▲                        │                              │
+ *    └────back under──────────┘◀──under threshold - hysteresis┘
+ *
+ * While alerting, a `repeat` event fires every `repeatIntervalMs`.
+ */
+
+export interface AlertConfig {
+  /** Allowed margin over the limit, in percent of it or in km/h */
+  tolerance: number;
+  toleranceMode: 'percent' | 'absolute';
+  /** km/h below the threshold the speed must drop to before the alert clears */
+  hysteresis: number;
+  /** How long the speed must stay over the threshold before alerting, ms */
+  minDurationMs: number;
+  /** Interval between reminders while still speeding, ms; 0 alerts once */
+  repeatIntervalMs: number;
+}
+
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  tolerance: 5,
+  toleranceMode: 'percent',
+  hysteresis: 3,
+  minDurationMs: 2000,
+  repeatIntervalMs: 30000,
+};
+
+export type AlertPhase = 'ok' | 'pending' | 'alerting';
+
+export type AlertEvent = 'alert' | 'repeat' | 'clear';
+
+export interface AlertState {
+  phase: AlertPhase;
+  /** When the speed went over the threshold, ms */
+  overSince: number | null;
+  /** When the last alert or reminder fired, ms */
+  lastAlertAt: number | null;
+}
+
+export interface AlertInput {
+  /** km/h, null when unknown */
+  speed: number | null;
+  /** km/h, null when there is no limit or it is unknown */
+  speedLimit: number | null;
+  /** ms */
+  time: number;
+}
+
+export const INITIAL_ALERT_STATE: AlertState = { phase: 'ok', overSince: null, lastAlertAt: null };
+
+/** Speed above which the driver is considered over the limit, km/h. */
+export function overspeedThreshold(speedLimit: number, config: AlertConfig): number {
+  const margin = config.toleranceMode === 'percent' ? (speedLimit * config.tolerance) / 100 : config.tolerance;
+  return speedLimit + Math.max(0, margin);
+}
+
+/** Advances the state machine by one speed sample. */
+export function stepAlert(
+  state: AlertState,
+  input: AlertInput,
+  config: AlertConfig
+): { state: AlertState; event: AlertEvent | null } {
+  const { speed, speedLimit, time } = input;
+  if (speed === null || speedLimit === null) {
+    return { state: INITIAL_ALERT_STATE, event: state.phase === 'alerting' ? 'clear' : null };
+  }
+
+  const threshold = overspeedThreshold(speedLimit, config);
+  const over = speed > threshold;
+
+  switch (state.phase) {
+    case 'ok':
+    case 'pending': {
+      if (!over) {
+        return { state: INITIAL_ALERT_STATE, event: null };
+      }
+      const overSince = state.overSince ?? time;
+      if (time - overSince >= config.minDurationMs) {
+        return { state: { phase: 'alerting', overSince, lastAlertAt: time }, event: 'alert' };
+      }
+      return { state: { phase: 'pending', overSince, lastAlertAt: null }, event: null };
+    }
+
+    case 'alerting': {
+      if (speed <= threshold - config.hysteresis) {
+        return { state: INITIAL_ALERT_STATE, event: 'clear' };
+      }
+      if (config.repeatIntervalMs > 0 && time - (state.lastAlertAt ?? time) >= config.repeatIntervalMs) {
+        return { state: { ...state, lastAlertAt: time }, event: 'repeat' };
+      }
+      return { state, event: null };
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { parseMaxspeedTags } from './maxspeed';
+
+/**
+ * Where a segment's limit came from, and how far it can be trusted.
+ *
+ *   tag            numeric `maxspeed` (or directional/variable) tags
+ *   zone           implicit zone code such as "PT:urban"
+ *   class-default  statutory default for an untagged way (defaultLimits.ts)
+ *   override       reported by the driver on this device
+ *   fallback       built-in sample data used when nothing else loads
+ */
+export type LimitSource = 'tag' | 'zone' | 'class-default' | 'override' | 'fallback';
+
+/** Confidence, 0-1, that a limit from each source is the one posted. */
+export const LIMIT_SOURCE_CONFIDENCE: Record<LimitSource, number> = {
+  override: 0.95,
+  tag: 0.9,
+  zone: 0.75,
+  'class-default': 0.4,
+  fallback: 0.1,
+};
+
+/** Limits that were inferred rather than read from the map or a sign. */
+export function isEstimatedLimit(source: LimitSource | null): boolean {
+  return source === 'class-default' || source === 'fallback';
+}
+
+/**
+ * Source of a limit the data doesn't record one for. The fetch script only
+ * fills in limits for untagged ways, so a limit without tags to back it up
+ * was a default; data without any tags states its limits directly.
+ */
+export function inferLimitSource(tags: Record<string, string> | undefined): LimitSource {
+  if (!tags || Object.keys(tags).length === 0) return 'tag';
+  const parsed = parseMaxspeedTags(tags);
+  if (parsed.speedLimit === undefined) return 'class-default';
+  return parsed.zone ? 'zone' : 'tag';
+}
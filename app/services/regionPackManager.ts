@@ -0,0 +1,123 @@
+import { ActivePacks, InstalledPack, RegionPack, RegionPackError, RegionPackManifest } from './regionPacks';
+
+/**
+ * File access the manager needs. The app uses expo-file-system (see
+ * expoPackFileSystem.ts); Node tests use the local disk.
+ */
+export interface PackFileSystem {
+  makeDirectory(path: string): Promise<void>;
+  exists(path: string): Promise<boolean>;
+  readString(path: string): Promise<string>;
+  writeString(path: string, contents: string): Promise<void>;
+  move(from: string, to: string): Promise<void>;
+  /** Does nothing when there is no such file */
+  delete(path: string): Promise<void>;
+  /** Saves `url` to `path` and resolves with the HTTP status; rejects when the transfer breaks off */
+  download(url: string, path: string): Promise<number>;
+  /** Hex SHA-256 of a string's UTF-8 bytes */
+  sha256(contents: string): Promise<string>;
+}
+
+/**
+ * Downloads, verifies and tracks regional speed-limit packs under
+ * `rootDir`. Which packs are in use is recorded in a single `active.json`
+ * that is only ever replaced by a rename, so a crash mid-install leaves the
+ * previous set active.
+ */
+export class RegionPackManager {
+  private readonly rootDir: string;
+
+  constructor(
+    private readonly manifestUrl: string,
+    private readonly files: PackFileSystem,
+    rootDir: string
+  ) {
+    this.rootDir = rootDir.endsWith('/') ? rootDir : `${rootDir}/`;
+  }
+
+  private get activePath() {
+    return `${this.rootDir}active.json`;
+  }
+
+  async fetchManifest(): Promise<RegionPackManifest> {
+    const response = await fetch(this.manifestUrl);
+    if (!response.ok) {
+      throw new RegionPackError(`Manifest request failed with HTTP ${response.status}`);
+    }
+    const manifest = (await response.json()) as RegionPackManifest;
+    if (!Array.isArray(manifest?.packs)) {
+      throw new RegionPackError('Manifest has no packs list');
+    }
+    return manifest;
+  }
+
+  async getActivePacks(): Promise<ActivePacks> {
+    if (!(await this.files.exists(this.activePath))) return {};
+    try {
+      return JSON.parse(await this.files.readString(this.activePath));
+    } catch (error) {
+      console.error('❌ Unreadable active pack list, ignoring it:', error);
+      return {};
+    }
+  }
+
+  /** Packs in the manifest that are newer than what is installed. */
+  async getUpdates(manifest: RegionPackManifest): Promise<RegionPack[]> {
+    const active = await this.getActivePacks();
+    return manifest.packs.filter((pack) => active[pack.id] && active[pack.id].version < pack.version);
+  }
+
+  /** Downloads a pack next to the installed ones and checks its SHA-256. */
+  async download(pack: RegionPack): Promise<InstalledPack> {
+    const packDir = `${this.rootDir}${pack.id}/`;
+    const file = `${packDir}${pack.version}.json`;
+    const partial = `${file}.download`;
+    await this.files.makeDirectory(packDir);
+
+    console.log(`📦 Downloading region pack ${pack.id} v${pack.version}...`);
+    let status: number;
+    try {
+      status = await this.files.download(this.resolveUrl(pack.url), partial);
+    } catch (error) {
+      // An interrupted transfer can leave part of the file behind
+      await this.files.delete(partial);
+      throw new RegionPackError(`Download failed: ${error instanceof Error ? error.message : error}`, pack.id);
+    }
+    if (status !== 200) {
+      await this.files.delete(partial);
+      throw new RegionPackError(`Download failed with HTTP ${status}`, pack.id);
+    }
+
+    const contents = await this.files.readString(partial);
+    const digest = await this.files.sha256(contents);
+    if (digest.toLowerCase() !== pack.sha256.toLowerCase()) {
+      await this.files.delete(partial);
+      throw new RegionPackError(`Checksum mismatch (expected ${pack.sha256}, got ${digest})`, pack.id);
+    }
+
+    await this.files.delete(file);
+    await this.files.move(partial, file);
+    console.log(`✅ Verified region pack ${pack.id} v${pack.version}`);
+    return { id: pack.id, version: pack.version, file };
+  }
+
+  async setActivePacks(active: ActivePacks): Promise<void> {
+    await this.files.makeDirectory(this.rootDir);
+    const staged = `${this.activePath}.tmp`;
+    await this.files.writeString(staged, JSON.stringify(active));
+    await this.files.move(staged, this.activePath);
+  }
+
+  async readPack(installed: InstalledPack): Promise<unknown> {
+    return JSON.parse(await this.files.readString(installed.file));
+  }
+
+  async remove(installed: InstalledPack): Promise<void> {
+    await this.files.delete(installed.file);
+  }
+
+  private resolveUrl(url: string) {
+    if (/^[a-z]+:\/\//i.test(url)) return url;
+    return this.manifestUrl.replace(/[^/]*$/, '') + url;
+  }
+}
@@ -0,0 +1,60 @@
+import { BBox } from './spatialIndex';
+
+export interface RegionPack {
+  id: string; // e.g. "MZ" or "MZ-G" (Gaza province)
+  name: string;
+  version: number;
+  sha256: string;
+  bbox: BBox;
+  url: string; // Absolute, or relative to the manifest
+  size?: number;
+}
+
+export interface RegionPackManifest {
+  generatedAt?: string;
+  packs: RegionPack[];
+}
+
+export interface InstalledPack {
+  id: string;
+  version: number;
+  file: string;
+  /** Version this one replaced, kept until this one has loaded on a later start */
+  previous?: InstalledPack;
+}
+
+// Pack id -> installed version, persisted in active.json
+export type ActivePacks = Record<string, InstalledPack>;
+
+export class RegionPackError extends Error {
+  constructor(message: string, public readonly packId?: string) {
+    super(message);
+    this.name = 'RegionPackError';
+  }
+}
+
+/** Stable key for a set of active packs, e.g. "MZ@3+PT@1". */
+export function activePacksKey(active: ActivePacks): string {
+  return Object.values(active)
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((pack) => `${pack.id}@${pack.version}`)
+    .join('+');
+}
+
+/** Each pack's previous version, to fall back to; null when no pack has one. */
+export function previousPacks(active: ActivePacks): ActivePacks | null {
+  if (!Object.values(active).some((pack) => pack.previous)) return null;
+  return Object.fromEntries(Object.entries(active).map(([id, pack]) => [id, pack.previous ?? pack]));
+}
+
+/** `active` without the previous versions, once the current ones are known to load. */
+export function confirmedPacks(active: ActivePacks): ActivePacks {
+  return Object.fromEntries(
+    Object.entries(active).map(([id, pack]) => [id, { id: pack.id, version: pack.version, file: pack.file }])
+  );
+}
+
+/** Every installed version `active` refers to, previous ones included. */
+export function referencedPacks(active: ActivePacks): InstalledPack[] {
+  return Object.values(active).flatMap((pack) => (pack.previous ? [pack, pack.previous] : [pack]));
+}
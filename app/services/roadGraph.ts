@@ -0,0 +1,190 @@
+import * as Turf from '@turf/turf';
+import { allowedDirections } from './direction';
+import { SpeedLimitSegment, TravelDirection } from './types';
+
+/**
+ * Connectivity graph over segments, built from the OSM node IDs each segment
+ * keeps for its vertices. Segments connect wherever they share a node, so
+ * bridges and tunnels crossing a road are correctly not connected to it.
+ * Data exported without node IDs falls back to matching vertex coordinates.
+ */
+
+export interface SegmentExit {
+  segment: SpeedLimitSegment;
+  direction: TravelDirection;
+  /** Vertex of `segment` at the shared node */
+  vertexIndex: number;
+}
+
+export interface ReachableSegment extends SegmentExit {
+  /** km from the starting position to where the segment is entered */
+  distance: number;
+}
+
+export interface GraphPosition {
+  segment: SpeedLimitSegment;
+  /** km along the segment's geometry */
+  along: number;
+  /** null when the direction of travel is unknown; both ways are explored */
+  direction: TravelDirection | null;
+}
+
+interface Edge {
+  to: string;
+  km: number;
+  segment: SpeedLimitSegment;
+  direction: TravelDirection;
+  fromIndex: number;
+}
+
+/** Key per vertex: the OSM node ID, or the rounded coordinate without one. */
+export function segmentNodeKeys(segment: SpeedLimitSegment): string[] {
+  return segment.geometry.map((coord, i) =>
+    segment.nodes?.[i] !== undefined ? `n${segment.nodes[i]}` : `c${coord[0].toFixed(6)},${coord[1].toFixed(6)}`
+  );
+}
+
+function vertexKm(a: [number, number], b: [number, number]) {
+  return Turf.distance(Turf.point(a), Turf.point(b), { units: 'kilometers' });
+}
+
+export class RoadGraph {
+  private readonly segments = new Map<string, SpeedLimitSegment>();
+  private readonly nodeKeys = new Map<string, string[]>();
+  // Node key -> segments touching it, with the vertex index there
+  private readonly nodeSegments = new Map<string, { segment: SpeedLimitSegment; vertexIndex: number }[]>();
+  private readonly edges = new Map<string, Edge[]>();
+
+  static fromSegments(segments: SpeedLimitSegment[]): RoadGraph {
+    const graph = new RoadGraph();
+    segments.forEach((segment) => graph.add(segment));
+    return graph;
+  }
+
+  get size(): number {
+    return this.segments.size;
+  }
+
+  getSegment(id: string | number): SpeedLimitSegment | undefined {
+    return this.segments.get(String(id));
+  }
+
+  /** Segments sharing at least one node with the given one. */
+  neighbors(id: string | number): SpeedLimitSegment[] {
+    const keys = this.nodeKeys.get(String(id)) ?? [];
+    const found = new Map<string, SpeedLimitSegment>();
+    for (const key of keys) {
+      for (const { segment } of this.nodeSegments.get(key) ?? []) {
+        if (String(segment.id) !== String(id)) found.set(String(segment.id), segment);
+      }
+    }
+    return [...found.values()];
+  }
+
+  connected(a: string | number, b: string | number): boolean {
+    return this.neighbors(a).some((segment) => String(segment.id) === String(b));
+  }
+
+  /** Where traffic can go from the node at the end of travelling a segment. */
+  exits(id: string | number, direction: TravelDirection): SegmentExit[] {
+    const keys = this.nodeKeys.get(String(id));
+    if (!keys) return [];
+    const endKey = direction === 'forward' ? keys[keys.length - 1] : keys[0];
+    return this.exitsAt(endKey).filter((exit) => String(exit.segment.id) !== String(id));
+  }
+
+  /**
+   * Segments reachable from a position within `maxKm` of driving, respecting
+   * one-way restrictions, nearest first.
+   */
+  reachableFrom(start: GraphPosition, maxKm: number): ReachableSegment[] {
+    const keys = this.nodeKeys.get(String(start.segment.id));
+    if (!keys) return [];
+
+    const distances = new Map<string, number>();
+    const directions = start.direction ? [start.direction] : allowedDirections(start.segment);
+    for (const direction of directions) {
+      const [key, km] = this.nextVertex(start, direction, keys);
+      if (km <= maxKm && km < (distances.get(key) ?? Infinity)) distances.set(key, km);
+    }
+
+    const reached = new Map<string, ReachableSegment>();
+    const visited = new Set<string>();
+    // Local graphs are small, so a linear scan for the closest node is enough
+    while (true) {
+      let current: string | null = null;
+      for (const [key, km] of distances) {
+        if (!visited.has(key) && (current === null || km < distances.get(current)!)) current = key;
+      }
+      if (current === null) break;
+      visited.add(current);
+      const km = distances.get(current)!;
+
+      for (const edge of this.edges.get(current) ?? []) {
+        const id = String(edge.segment.id);
+        if (id !== String(start.segment.id) && !reached.has(id)) {
+          reached.set(id, { segment: edge.segment, direction: edge.direction, vertexIndex: edge.fromIndex, distance: km });
+        }
+        const next = km + edge.km;
+        if (next <= maxKm && next < (distances.get(edge.to) ?? Infinity)) {
+          distances.set(edge.to, next);
+        }
+      }
+    }
+    return [...reached.values()].sort((a, b) => a.distance - b.distance);
+  }
+
+  private add(segment: SpeedLimitSegment) {
+    const id = String(segment.id);
+    const keys = segmentNodeKeys(segment);
+    this.segments.set(id, segment);
+    this.nodeKeys.set(id, keys);
+
+    keys.forEach((key, vertexIndex) => {
+      const touching = this.nodeSegments.get(key) ?? [];
+      touching.push({ segment, vertexIndex });
+      this.nodeSegments.set(key, touching);
+    });
+
+    const allowed = allowedDirections(segment);
+    for (let i = 0; i < keys.length - 1; i++) {
+      const km = vertexKm(segment.geometry[i], segment.geometry[i + 1]);
+      if (allowed.includes('forward')) {
+        this.addEdge(keys[i], { to: keys[i + 1], km, segment, direction: 'forward', fromIndex: i });
+      }
+      if (allowed.includes('backward')) {
+        this.addEdge(keys[i + 1], { to: keys[i], km, segment, direction: 'backward', fromIndex: i + 1 });
+      }
+    }
+  }
+
+  private addEdge(from: string, edge: Edge) {
+    const edges = this.edges.get(from) ?? [];
+    edges.push(edge);
+    this.edges.set(from, edges);
+  }
+
+  private exitsAt(key: string): SegmentExit[] {
+    return (this.edges.get(key) ?? []).map((edge) => ({
+      segment: edge.segment,
+      direction: edge.direction,
+      vertexIndex: edge.fromIndex,
+    }));
+  }
+
+  // Next vertex in the direction of travel and the km to it
+  private nextVertex(start: GraphPosition, direction: TravelDirection, keys: string[]): [string, number] {
+    const { geometry } = start.segment;
+    let travelled = 0;
+    for (let i = 0; i < geometry.length - 1; i++) {
+      const km = vertexKm(geometry[i], geometry[i + 1]);
+      if (travelled + km >= start.along) {
+        return direction === 'forward'
+          ? [keys[i + 1], travelled + km - start.along]
+          : [keys[i], start.along - travelled];
+      }
+      travelled += km;
+    }
+    return [keys[keys.length - 1], 0];
+  }
+}
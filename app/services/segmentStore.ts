@@ -0,0 +1,173 @@
+import { defaultSpeedLimit, roadContext } from './defaultLimits';
+import { parseMaxspeedTags } from './maxspeed';
+import { LIMIT_SOURCE_CONFIDENCE, LimitSource, inferLimitSource } from './provenance';
+import { BBox, GridIndex, bboxOfCoordinates } from './spatialIndex';
+import { SpeedLimitSegment, UNNAMED_ROAD } from './types';
+import { UrbanArea, normalizeUrbanAreas, urbanAreaBBox } from './urbanAreas';
+
+/**
+ * Where SpeedLimitService gets its segments from. Lookups only ever ask for
+ * the segments around the current fix, so a store never has to hand over the
+ * whole dataset.
+ */
+export interface SegmentStore {
+  /** Prepares the store and resolves with the number of available segments. */
+  load(): Promise<number>;
+  /** Segments whose bounding box intersects `bbox`. */
+  queryBBox(bbox: BBox): Promise<SpeedLimitSegment[]>;
+  /** Built-up areas whose bounding box intersects `bbox`; none for data without them. */
+  queryUrbanAreas(bbox: BBox): Promise<UrbanArea[]>;
+  count(): Promise<number>;
+  /** The first `limit` segments, for debugging. */
+  list(limit?: number): Promise<SpeedLimitSegment[]>;
+  /** Releases the store and deletes anything it persisted. */
+  destroy(): Promise<void>;
+}
+
+/**
+ * Creates a store over `loadSource` for persistent stores to keep under
+ * `databaseName`, re-importing whenever `sourceVersion` changes.
+ */
+export type SegmentStoreFactory = (
+  databaseName: string,
+  sourceVersion: string,
+  loadSource: () => Promise<unknown> | unknown
+) => SegmentStore;
+
+/**
+ * Segment data is either an array of segments or, since built-up areas were
+ * added, `{ segments, urbanAreas }`. JSON required through Metro may also
+ * come wrapped in `default`.
+ */
+export function splitSegmentData(data: unknown): { segments: unknown[]; urbanAreas: unknown[] } {
+  const content = typeof data === 'object' && data !== null && 'default' in data ? data.default : data;
+  if (Array.isArray(content)) return { segments: content, urbanAreas: [] };
+  if (typeof content !== 'object' || content === null) return { segments: [], urbanAreas: [] };
+  return {
+    segments: 'segments' in content && Array.isArray(content.segments) ? content.segments : [],
+    urbanAreas: 'urbanAreas' in content && Array.isArray(content.urbanAreas) ? content.urbanAreas : [],
+  };
+}
+
+// A segment as it appears in exported data, before its limit and geometry
+// are checked. Data exported by older versions lacks most of the fields.
+type RawSegment = Partial<Omit<SpeedLimitSegment, 'speedLimit' | 'geometry'>> & {
+  speedLimit?: unknown;
+  geometry: unknown;
+};
+
+function isRawSegment(value: unknown): value is RawSegment {
+  if (typeof value !== 'object' || value === null || !('geometry' in value)) return false;
+  return !('tags' in value) || value.tags === undefined || (typeof value.tags === 'object' && value.tags !== null);
+}
+
+function isCoordinate(value: unknown): value is [number, number] {
+  return Array.isArray(value) && typeof value[0] === 'number' && typeof value[1] === 'number';
+}
+
+// Plain coordinate arrays or GeoJSON-style `{ coordinates }` geometries
+function segmentCoordinates(geometry: unknown): [number, number][] | null {
+  const coords =
+    typeof geometry === 'object' && geometry !== null && 'coordinates' in geometry ? geometry.coordinates : geometry;
+  return Array.isArray(coords) && coords.length >= 2 && coords.every(isCoordinate) ? coords : null;
+}
+
+// Accepts the exported formats (see splitSegmentData) and GeoJSON-style geometries. Data
+// exported before limits were structured gets them parsed from its tags, and
+// data exported before provenance was recorded gets its source inferred.
+// Default limits are derived again with the app's rules.
+export function normalizeSegments(data: unknown): SpeedLimitSegment[] {
+  const { segments } = splitSegmentData(data);
+  const validSegments: SpeedLimitSegment[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    const s = segments[i];
+    if (!isRawSegment(s)) continue;
+    const coords = segmentCoordinates(s.geometry);
+
+    // Untagged ways without a limit get the statutory default below
+    const isUntagged = s.speedLimit === undefined && !!s.tags?.highway;
+    const validLimit =
+      s.speedLimit === null || (typeof s.speedLimit === 'number' && !isNaN(s.speedLimit)) ? s.speedLimit : undefined;
+    if (!coords || (!isUntagged && validLimit === undefined)) continue;
+
+    const parsed = parseMaxspeedTags(s.tags);
+    const limitSource: LimitSource = isUntagged ? 'class-default' : (s.limitSource ?? inferLimitSource(s.tags));
+    let speedLimit = validLimit ?? null;
+    let zone = s.zone ?? parsed.zone;
+    const country = s.country ?? zone?.split(':')[0];
+    if (limitSource === 'class-default') {
+      const statutory = defaultSpeedLimit(roadContext(s.tags ?? {}, s.urban), country);
+      speedLimit = statutory.speedLimit;
+      zone = statutory.zone;
+    }
+    validSegments.push({
+      id: s.id || `segment-${i}`,
+      name: s.name || s.tags?.name || UNNAMED_ROAD,
+      type: s.type || s.tags?.highway || 'unclassified',
+      speedLimit,
+      speedLimitForward: s.speedLimitForward ?? parsed.speedLimitForward,
+      speedLimitBackward: s.speedLimitBackward ?? parsed.speedLimitBackward,
+      conditionalLimits: s.conditionalLimits ?? parsed.conditionalLimits,
+      zone,
+      country,
+      ...(typeof s.urban === 'boolean' && { urban: s.urban }),
+      limitSource,
+      limitConfidence: s.limitConfidence ?? LIMIT_SOURCE_CONFIDENCE[limitSource],
+      geometry: coords,
+      nodes: Array.isArray(s.nodes) && s.nodes.length === coords.length ? s.nodes : undefined,
+      properties: s.properties || {},
+      tags: s.tags || {},
+    });
+  }
+  return validSegments;
+}
+
+/**
+ * Keeps every segment in memory behind a grid index. Used for the bundled
+ * JSON on web and in Node tooling where SQLite isn't available.
+ */
+export class MemorySegmentStore implements SegmentStore {
+  private segments: SpeedLimitSegment[] = [];
+  private index = new GridIndex<SpeedLimitSegment>();
+  // Coarser cells: areas are much larger than road segments
+  private urbanAreas = new GridIndex<UrbanArea>(0.1);
+
+  constructor(private readonly loadSource: () => Promise<unknown> | unknown) {}
+
+  async load(): Promise<number> {
+    const data = await this.loadSource();
+    this.segments = normalizeSegments(data);
+    this.index.clear();
+    for (const segment of this.segments) {
+      this.index.insert(segment, bboxOfCoordinates(segment.geometry));
+    }
+    this.urbanAreas.clear();
+    for (const area of normalizeUrbanAreas(splitSegmentData(data).urbanAreas)) {
+      this.urbanAreas.insert(area, urbanAreaBBox(area));
+    }
+    return this.segments.length;
+  }
+
+  async queryBBox(bbox: BBox): Promise<SpeedLimitSegment[]> {
+    return this.index.search(bbox);
+  }
+
+  async queryUrbanAreas(bbox: BBox): Promise<UrbanArea[]> {
+    return this.urbanAreas.search(bbox);
+  }
+
+  async count(): Promise<number> {
+    return this.segments.length;
+  }
+
+  async list(limit = Infinity): Promise<SpeedLimitSegment[]> {
+    return this.segments.slice(0, limit);
+  }
+
+  async destroy(): Promise<void> {
+    this.segments = [];
+    this.index.clear();
+    this.urbanAreas.clear();
+  }
+}
@@ -0,0 +1,65 @@
+import Storage from 'expo-sqlite/kv-store';
+import { Locale } from './i18n';
+import { AlertConfig, DEFAULT_ALERT_CONFIG } from './overspeedAlert';
+import { SpeedUnit } from './units';
+import { VehicleClass } from './vehicles';
+
+export interface Settings {
+  vehicleClass: VehicleClass;
+  alert: AlertConfig;
+  alertSound: boolean;
+  alertHaptics: boolean;
+  /** Keep matching and alerting while the app is in the background */
+  backgroundTracking: boolean;
+  /** UI language; null follows the device */
+  language: Locale | null;
+  /** Unit speeds and limits are shown in; null follows the device's region */
+  speedUnit: SpeedUnit | null;
+}
+
+const STORAGE_KEY = 'settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  vehicleClass: 'car',
+  alert: DEFAULT_ALERT_CONFIG,
+  alertSound: true,
+  alertHaptics: true,
+  backgroundTracking: false,
+  language: null,
+  speedUnit: null,
+};
+
+type Listener = (settings: Settings) => void;
+
+let cached: Settings | null = null;
+const listeners = new Set<Listener>();
+
+export async function getSettings(): Promise<Settings> {
+  if (!cached) {
+    try {
+      const stored = await Storage.getItemAsync(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : {};
+      // Nested settings gain new fields without losing stored ones
+      cached = { ...DEFAULT_SETTINGS, ...parsed, alert: { ...DEFAULT_SETTINGS.alert, ...parsed.alert } };
+    } catch (error) {
+      console.error('❌ Error reading settings, using defaults:', error);
+      cached = { ...DEFAULT_SETTINGS };
+    }
+  }
+  return cached!;
+}
+
+export async function updateSettings(changes: Partial<Settings>): Promise<Settings> {
+  const next = { ...(await getSettings()), ...changes };
+  cached = next;
+  await Storage.setItemAsync(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach((listener) => listener(next));
+  return next;
+}
+
+export function subscribeSettings(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,112 @@
+// [minLon, minLat, maxLon, maxLat]
+export type BBox = [number, number, number, number];
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+export function bboxOfCoordinates(coords: [number, number][]): BBox {
+  let minLon = Infinity;
+  let minLat = Infinity;
+  let maxLon = -Infinity;
+  let maxLat = -Infinity;
+  for (const [lon, lat] of coords) {
+    if (lon < minLon) minLon = lon;
+    if (lat < minLat) minLat = lat;
+    if (lon > maxLon) maxLon = lon;
+    if (lat > maxLat) maxLat = lat;
+  }
+  return [minLon, minLat, maxLon, maxLat];
+}
+
+// Square-ish box of `radiusKm` around a point, widened in longitude for latitude
+export function bboxAroundPoint(longitude: number, latitude: number, radiusKm: number): BBox {
+  const dLat = radiusKm / KM_PER_DEGREE_LAT;
+  const cosLat = Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+  const dLon = radiusKm / (KM_PER_DEGREE_LAT * cosLat);
+  return [longitude - dLon, latitude - dLat, longitude + dLon, latitude + dLat];
+}
+
+export function bboxIntersects(a: BBox, b: BBox): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+}
+
+export function bboxContains(outer: BBox, inner: BBox): boolean {
+  return outer[0] <= inner[0] && outer[1] <= inner[1] && outer[2] >= inner[2] && outer[3] >= inner[3];
+}
+
+/**
+ * Uniform grid over item bounding boxes. Each item is registered in every cell
+ * its bbox touches, so a lookup only has to look at the cells around the fix
+ * instead of scanning every segment.
+ */
+export class GridIndex<T> {
+  private readonly cells = new Map<number, number[]>();
+  private readonly items: T[] = [];
+  private readonly bboxes: BBox[] = [];
+
+  // 0.01° is roughly 1.1 km at the equator, a good fit for road segments
+  constructor(private readonly cellSize = 0.01) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  insert(item: T, bbox: BBox): void {
+    const index = this.items.length;
+    this.items.push(item);
+    this.bboxes.push(bbox);
+
+    const [minX, minY, maxX, maxY] = this.cellRange(bbox);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const key = this.cellKey(x, y);
+        const bucket = this.cells.get(key);
+        if (bucket) {
+          bucket.push(index);
+        } else {
+          this.cells.set(key, [index]);
+        }
+      }
+    }
+  }
+
+  search(bbox: BBox): T[] {
+    const [minX, minY, maxX, maxY] = this.cellRange(bbox);
+    const seen = new Set<number>();
+    const results: T[] = [];
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const bucket = this.cells.get(this.cellKey(x, y));
+        if (!bucket) continue;
+        for (const index of bucket) {
+          if (seen.has(index)) continue;
+          seen.add(index);
+          if (bboxIntersects(this.bboxes[index], bbox)) {
+            results.push(this.items[index]);
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.items.length = 0;
+    this.bboxes.length = 0;
+  }
+
+  private cellRange(bbox: BBox): [number, number, number, number] {
+    return [
+      Math.floor(bbox[0] / this.cellSize),
+      Math.floor(bbox[1] / this.cellSize),
+      Math.floor(bbox[2] / this.cellSize),
+      Math.floor(bbox[3] / this.cellSize),
+    ];
+  }
+
+  // Cells are packed into a single number; rows stay below 100000 for cells of 0.002° and up
+  private cellKey(x: number, y: number): number {
+    return x * 100000 + y;
+  }
+}
@@ -0,0 +1,128 @@
+import * as Turf from '@turf/turf';
+
+/**
+ * Smoothed vehicle speed from GPS fixes. A one-dimensional Kalman filter
+ * fuses the receiver's Doppler speed with the speed implied by consecutive
+ * positions, so a missing or jumpy Doppler reading doesn't reach the display
+ * or the overspeed alerts. Pure, like the map matcher, so recorded traces
+ * give the same readings in scripts.
+ */
+
+export interface SpeedFix {
+  latitude: number;
+  longitude: number;
+  /** Horizontal accuracy in metres, when known */
+  accuracy: number | null;
+  /** Doppler speed in m/s; negative or null when the receiver has none */
+  speed: number | null;
+  /** ms */
+  timestamp: number;
+}
+
+export interface SpeedReading {
+  /** km/h, null until the first usable fix and while stale */
+  speed: number | null;
+  /** No usable fix for `staleAfterMs`, e.g. in a tunnel */
+  stale: boolean;
+}
+
+export interface SpeedEstimatorOptions {
+  /** Fixes less accurate than this are ignored, metres */
+  maxAccuracyMeters?: number;
+  /** The reading goes stale this long after the last usable fix, ms */
+  staleAfterMs?: number;
+  /** Standard deviation of the vehicle's acceleration, m/s² */
+  accelerationSigma?: number;
+  /** Standard deviation of Doppler speed, m/s */
+  dopplerSigma?: number;
+}
+
+/** How long the tracker keeps a speed without new fixes, ms. */
+export const SPEED_STALE_MS = 5000;
+
+// Accuracy assumed for fixes that don't report one, metres
+const DEFAULT_ACCURACY_M = 10;
+
+interface AcceptedFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  timestamp: number;
+}
+
+export class SpeedEstimator {
+  private readonly options: Required<SpeedEstimatorOptions>;
+  /** m/s */
+  private estimate: number | null = null;
+  /** Variance of the estimate, (m/s)² */
+  private variance = 0;
+  private lastFix: AcceptedFix | null = null;
+
+  constructor(options: SpeedEstimatorOptions = {}) {
+    this.options = {
+      maxAccuracyMeters: 25,
+      staleAfterMs: SPEED_STALE_MS,
+      accelerationSigma: 1,
+      dopplerSigma: 0.5,
+      ...options,
+    };
+  }
+
+  reset() {
+    this.estimate = null;
+    this.variance = 0;
+    this.lastFix = null;
+  }
+
+  /** Feeds one fix and returns the reading at its time. */
+  update(fix: SpeedFix): SpeedReading {
+    const accuracy = fix.accuracy ?? DEFAULT_ACCURACY_M;
+    if (accuracy > this.options.maxAccuracyMeters) {
+      return this.reading(fix.timestamp);
+    }
+
+    const previous = this.lastFix;
+    const elapsed = previous ? (fix.timestamp - previous.timestamp) / 1000 : 0;
+    if (previous && elapsed <= 0) {
+      return this.reading(fix.timestamp); // Repeated or out of order
+    }
+    if (this.estimate === null || elapsed * 1000 > this.options.staleAfterMs) {
+      this.estimate = null; // Too old to carry over
+    } else {
+      // Speed may have changed by acceleration over the elapsed time
+      this.variance += (this.options.accelerationSigma * elapsed) ** 2;
+    }
+
+    if (fix.speed !== null && fix.speed >= 0) {
+      this.correct(fix.speed, this.options.dopplerSigma ** 2);
+    }
+    if (previous && elapsed * 1000 <= this.options.staleAfterMs) {
+      const meters =
+        Turf.distance(Turf.point([previous.longitude, previous.latitude]), Turf.point([fix.longitude, fix.latitude]), {
+          units: 'kilometers',
+        }) * 1000;
+      // Both positions are off by up to their accuracy
+      this.correct(meters / elapsed, (previous.accuracy ** 2 + accuracy ** 2) / elapsed ** 2);
+    }
+
+    this.lastFix = { latitude: fix.latitude, longitude: fix.longitude, accuracy, timestamp: fix.timestamp };
+    return this.reading(fix.timestamp);
+  }
+
+  /** The current reading at `time`, ms. */
+  reading(time: number): SpeedReading {
+    const stale = !this.lastFix || time - this.lastFix.timestamp > this.options.staleAfterMs;
+    return { speed: stale || this.estimate === null ? null : this.estimate * 3.6, stale };
+  }
+
+  private correct(measurement: number, measurementVariance: number) {
+    if (this.estimate === null) {
+      this.estimate = measurement;
+      this.variance = measurementVariance;
+      return;
+    }
+    const gain = this.variance / (this.variance + measurementVariance);
+    this.estimate = Math.max(0, this.estimate + gain * (measurement - this.estimate));
+    this.variance *= 1 - gain;
+  }
+}
@@ -1,28 +1,70 @@
-import * as FileSystem from 'expo-file-system';
-import * as Location from 'expo-location';
+import type * as Location from 'expo-location';
 import * as Turf from '@turf/turf';
+import { ConditionContext, activeConditionalLimit } from './conditions';
+import { defaultSpeedLimit, roadContext } from './defaultLimits';
+import { directionalSpeedLimit, travelDirection } from './direction';
+import { predictPath } from './lookAhead';
+import { HmmMapMatcher, MatchCandidate, matchCandidate } from './mapMatcher';
+import { LIMIT_SOURCE_CONFIDENCE, inferLimitSource, isEstimatedLimit } from './provenance';
+import type { RegionPackManager } from './regionPackManager';
+import {
+  ActivePacks,
+  RegionPack,
+  RegionPackError,
+  RegionPackManifest,
+  activePacksKey,
+  confirmedPacks,
+  previousPacks,
+  referencedPacks,
+} from './regionPacks';
+import { ReachableSegment, RoadGraph } from './roadGraph';
+import { MemorySegmentStore, SegmentStore, SegmentStoreFactory, splitSegmentData } from './segmentStore';
+import { BBox, bboxAroundPoint, bboxContains } from './spatialIndex';
+import { SpeedLimitLookup, SpeedLimitSegment, TravelDirection, UpcomingSpeedLimit } from './types';
+import { UrbanArea, isInUrbanArea } from './urbanAreas';
+import { VehicleClass, vehicleSpeedLimit } from './vehicles';
 
-interface SpeedLimitSegment {
-  id: string | number;
-  name: string;
-  type: string;
-  speedLimit: number;
-  geometry: [number, number][];
-  properties?: Record<string, any>;
-  tags?: Record<string, string>;
-}
+export type { SpeedLimitLookup, SpeedLimitSegment, TravelDirection, UpcomingSpeedLimit } from './types';
 
-class SpeedLimitService {
-  private segments: SpeedLimitSegment[] = [];
+/**
+ * Matches fixes to segments and works out the limit that applies. Everything
+ * platform-specific is passed in, so the same class runs in the app (see
+ * deviceSpeedLimitService.ts) and in Node scripts over a MemorySegmentStore.
+ */
+export class SpeedLimitService {
+  private store: SegmentStore;
+  private activePackKey: string | null = null;
+  private recentFixes: { longitude: number; latitude: number }[] = [];
+  private lastMatch: MatchCandidate | null = null;
+  // Whether the last matched position was in a built-up area, as urbanAt found
+  private lastUrban: boolean | null = null;
+  private lastFixTime = new Date();
+  private graphCache: { store: SegmentStore; bbox: BBox; graph: RoadGraph } | null = null;
+  private roadConditions: Pick<ConditionContext, 'wet' | 'snow'> = {};
+  private vehicleClass: VehicleClass = 'car';
+  private overrides = new Map<string, number>();
   private isInitialized = false;
 
+  constructor(
+    store: SegmentStore,
+    private readonly packs: RegionPackManager | null = null,
+    private readonly matcher = new HmmMapMatcher(),
+    private readonly createStore: SegmentStoreFactory = (_name, _version, loadSource) =>
+      new MemorySegmentStore(loadSource)
+  ) {
+    this.store = store;
+  }
+
   public get isReady(): boolean {
     return this.isInitialized;
   }
 
-  private readonly DATA_PATH = `${FileSystem.documentDirectory}speedLimits.json`;
-  private readonly DEFAULT_SPEED_LIMIT = 10; // km/h
   private readonly MAX_DISTANCE_KM = 0.015; // 15 meters
+  private readonly DEFAULT_COUNTRY = 'MZ'; // For segments that don't record one
+  private readonly MIN_HEADING_SPEED = 1.5; // m/s, GPS heading is noise below this
+  private readonly MIN_BEARING_DISTANCE_KM = 0.01; // Between fixes used to derive a bearing
+  private readonly RECENT_FIX_COUNT = 5;
+  private readonly GRAPH_MARGIN_KM = 1; // Extra road network loaded around graph queries
 
   async initialize(): Promise<boolean> {
     console.log('🚀 Initializing speed limit service...');
@@ -32,101 +74,224 @@ class SpeedLimitService {
     }
 
     try {
-      const bundledData = await this.loadBundledData();
-      if (bundledData.length > 0) {
-        this.segments = bundledData;
-        console.log(`✅ Loaded ${this.segments.length} segments from bundled data`);
+      const count = (await this.loadActivePacks()) || (await this.store.load());
+      if (count > 0) {
+        console.log(`✅ ${count} segments available from the segment store`);
       } else {
-        console.warn('⚠️ No valid segments in bundled data, using default data');
-        this.segments = this.createDefaultData();
+        console.warn('⚠️ No valid segments in the segment store, using default data');
+        await this.useDefaultData();
       }
       this.isInitialized = true;
       console.log('🎉 Speed limit service initialized successfully');
       return true;
     } catch (error) {
       console.error('❌ Error initializing speed limit service:', error);
-      this.segments = this.createDefaultData(); // Fallback
+      await this.useDefaultData(); // Fallback
       this.isInitialized = true;
       return false;
     }
   }
 
-  private async loadBundledData(): Promise<SpeedLimitSegment[]> {
-    try {
-      const data = require('../../assets/data/speedLimits.json');
-      const segments = Array.isArray(data) ? data : data.default || [];
-      console.log(`🔍 Found ${segments.length} segments in the data file`);
+  // Installed region packs take precedence over the bundled data. A newly
+  // installed version that fails to load falls back to the one it replaced.
+  private async loadActivePacks(): Promise<number> {
+    if (!this.packs) return 0;
+    const active = await this.packs.getActivePacks();
+    if (Object.keys(active).length === 0) return 0;
+
+    const count = await this.usePacks(active);
+    const fallback = previousPacks(active);
+    if (count > 0 || !fallback) {
+      if (count > 0 && fallback) await this.recordActivePacks(active, confirmedPacks(active));
+      return count;
+    }
 
-      if (segments.length === 0) {
-        return [];
+    console.warn(`⚠️ Falling back to region packs ${activePacksKey(fallback)}`);
+    const fallbackCount = await this.usePacks(fallback);
+    if (fallbackCount > 0) await this.recordActivePacks(active, fallback);
+    return fallbackCount;
+  }
+
+  private async usePacks(active: ActivePacks): Promise<number> {
+    const store = this.createPackStore(active);
+    try {
+      const count = await store.load();
+      if (count > 0) {
+        this.store = store;
+        this.activePackKey = activePacksKey(active);
+        console.log(`📦 Using region packs ${this.activePackKey}`);
+      } else {
+        await this.discardPackStore(store);
       }
+      return count;
+    } catch (error) {
+      console.error(`❌ Error loading region packs ${activePacksKey(active)}:`, error);
+      await this.discardPackStore(store);
+      return 0;
+    }
+  }
 
-      const validSegments: SpeedLimitSegment[] = [];
-      for (let i = 0; i < segments.length; i++) {
-        const s = segments[i];
-        if (!s || !s.geometry) continue;
-
-        const hasValidSpeed = typeof s.speedLimit === 'number' && !isNaN(s.speedLimit);
-        const coords = Array.isArray(s.geometry) ? s.geometry : s.geometry.coordinates;
-        const hasValidCoords = Array.isArray(coords) && coords.length >= 2;
-
-        if (hasValidSpeed && hasValidCoords) {
-          validSegments.push({
-            id: s.id || `segment-${i}`,
-            name: s.name || s.tags?.name || 'Unnamed Road',
-            type: s.type || s.tags?.highway || 'unclassified',
-            speedLimit: s.speedLimit,
-            geometry: coords,
-            properties: s.properties || {},
-            tags: s.tags || {},
-          });
-        }
+  // At startup the packs in use are already loaded, so failing to record them only costs a retry next time
+  private async recordActivePacks(current: ActivePacks, next: ActivePacks) {
+    try {
+      await this.packs!.setActivePacks(next);
+      await this.removeUnreferencedPacks(current, next);
+    } catch (error) {
+      console.error('❌ Error recording the active region packs:', error);
+    }
+  }
+
+  // Deletes the files of versions `current` refers to and `next` doesn't
+  private async removeUnreferencedPacks(current: ActivePacks, next: ActivePacks) {
+    const needed = new Set(referencedPacks(next).map((pack) => pack.file));
+    for (const pack of referencedPacks(current)) {
+      if (needed.has(pack.file)) continue;
+      await this.packs!.remove(pack).catch((error) => {
+        console.error(`❌ Error deleting region pack ${pack.id} v${pack.version}:`, error);
+      });
+    }
+  }
+
+  // Cleaning up must not hide the error that made it necessary
+  private async discardPackStore(store: SegmentStore) {
+    try {
+      await store.destroy();
+    } catch (error) {
+      console.error('❌ Error deleting a region pack store:', error);
+    }
+  }
+
+  private createPackStore(active: ActivePacks): SegmentStore {
+    const packs = this.packs!;
+    const key = activePacksKey(active);
+    return this.createStore(`packs-${key.replace(/[^A-Za-z0-9@+-]/g, '_')}.db`, key, async () => {
+      const contents = await Promise.all(Object.values(active).map((pack) => packs.readPack(pack)));
+      // Packs are in either segment data format; the store gets one in the newer
+      const parts = contents.map(splitSegmentData);
+      return {
+        segments: parts.flatMap((part) => part.segments),
+        urbanAreas: parts.flatMap((part) => part.urbanAreas),
+      };
+    });
+  }
+
+  async getRegionPackManifest(): Promise<RegionPackManifest> {
+    if (!this.packs) {
+      throw new RegionPackError('No region pack manifest URL configured');
+    }
+    return this.packs.fetchManifest();
+  }
+
+  /**
+   * Downloads and verifies a pack, then switches lookups over to it. The
+   * previous packs stay active if the new data cannot be loaded, and the
+   * replaced version is kept until the new one loads on a later start.
+   */
+  async installRegionPack(pack: RegionPack): Promise<void> {
+    if (!this.packs) {
+      throw new RegionPackError('No region pack manifest URL configured', pack.id);
+    }
+
+    const previous = await this.packs.getActivePacks();
+    const current = previous[pack.id];
+    if (current?.version === pack.version) {
+      console.log(`ℹ️ Region pack ${pack.id} v${pack.version} already active`);
+      return;
+    }
+    const installed = await this.packs.download(pack);
+    const replaced = current && { id: current.id, version: current.version, file: current.file };
+    const next = { ...previous, [pack.id]: { ...installed, ...(replaced && { previous: replaced }) } };
+    const store = this.createPackStore(next);
+
+    try {
+      const count = await store.load();
+      if (count === 0) {
+        throw new RegionPackError('Pack contains no valid segments', pack.id);
       }
-      console.log(`✅ Loaded ${validSegments.length} valid segments`);
-      return validSegments;
     } catch (error) {
-      console.error('❌ Error loading bundled data:', error);
-      return [];
+      console.error(`❌ Failed to load region pack ${pack.id}, rolling back:`, error);
+      await this.discardPackStore(store);
+      await this.removeUnreferencedPacks(next, previous);
+      throw error;
     }
+
+    await this.packs.setActivePacks(next);
+    const replacedStore = this.activePackKey ? this.store : null;
+    this.store = store;
+    this.activePackKey = activePacksKey(next);
+    this.isInitialized = true;
+    console.log(`🎉 Activated region packs ${this.activePackKey}`);
+
+    if (replacedStore) await this.discardPackStore(replacedStore);
+    await this.removeUnreferencedPacks(previous, next);
+  }
+
+  private async useDefaultData() {
+    this.store = new MemorySegmentStore(() => this.createDefaultData());
+    await this.store.load();
   }
 
-  private createDefaultData(): SpeedLimitSegment[] {
+  // Limits on the sample road come from the default rules, so they change
+  // between urban and rural like they would on an untagged way
+  private createDefaultData(): { segments: SpeedLimitSegment[]; urbanAreas: UrbanArea[] } {
     console.log('ℹ️ Creating default speed limit data for N1 highway...');
-    return [
-      {
-        id: 'n1-chidenguele-zandamela',
-        name: 'N1 - Chidenguele to Zandamela',
-        type: 'trunk',
-        speedLimit: 100,
-        tags: { highway: 'trunk', ref: 'N1' },
-        geometry: [
-          [34.267, -24.833], // Start point near user's test location
-          [34.277, -24.823]  // End point along N1
-        ],
-      },
-      {
-        id: 'chidenguele-urban',
-        name: 'Chidenguele Urban Area',
-        type: 'residential',
-        speedLimit: 60,
-        tags: { highway: 'residential' },
-        geometry: [
-          [34.19, -24.98],
-          [34.20, -24.97]
-        ],
-      },
-      {
-        id: 'zandamela-urban',
-        name: 'Zandamela Urban Area',
-        type: 'residential',
-        speedLimit: 60,
-        tags: { highway: 'residential' },
-        geometry: [
-          [34.35, -24.75],
-          [34.36, -24.74]
-        ],
-      },
-    ];
+    return {
+      segments: [
+        {
+          id: 'n1-chidenguele-zandamela',
+          name: 'N1 - Chidenguele to Zandamela',
+          type: 'trunk',
+          speedLimit: 100,
+          limitSource: 'fallback',
+          country: 'MZ',
+          urban: false,
+          tags: { highway: 'trunk', ref: 'N1' },
+          geometry: [
+            [34.195, -24.975], // Chidenguele
+            [34.267, -24.833], // Near user's test location
+            [34.277, -24.823],
+            [34.355, -24.745], // Zandamela
+          ],
+        },
+      ],
+      urbanAreas: [
+        {
+          id: 'chidenguele',
+          name: 'Chidenguele',
+          kind: 'place=town',
+          polygons: [[[[34.185, -24.985], [34.205, -24.985], [34.205, -24.965], [34.185, -24.965], [34.185, -24.985]]]],
+        },
+        {
+          id: 'zandamela',
+          name: 'Zandamela',
+          kind: 'place=village',
+          polygons: [[[[34.345, -24.755], [34.365, -24.755], [34.365, -24.735], [34.345, -24.735], [34.345, -24.755]]]],
+        },
+      ],
+    };
+  }
+
+  /** Weather that `wet`/`snow` conditional limits depend on; unknown by default. */
+  setRoadConditions(conditions: Pick<ConditionContext, 'wet' | 'snow'>) {
+    this.roadConditions = conditions;
+  }
+
+  /** Vehicle class that returned limits apply to. */
+  setVehicleClass(vehicleClass: VehicleClass) {
+    this.vehicleClass = vehicleClass;
+  }
+
+  /** Segment ID -> km/h reported by the driver, used instead of the segment's own limits. */
+  setOverrides(overrides: Map<string, number>) {
+    this.overrides = new Map(overrides);
+  }
+
+  /** Forgets recent fixes and the matched path, e.g. after jumping within a replay. */
+  resetMatching() {
+    this.matcher.reset();
+    this.recentFixes = [];
+    this.lastMatch = null;
+    this.lastUrban = null;
   }
 
   async getSpeedLimitAtLocation(location: Location.LocationObject): Promise<number | null> {
@@ -134,56 +299,224 @@ class SpeedLimitService {
     return speedLimit;
   }
 
-  async getSpeedLimitAtLocationWithInfo(
-    location: Location.LocationObject
-  ): Promise<{ speedLimit: number | null; segment: SpeedLimitSegment | null; distance: number }> {
+  async getSpeedLimitAtLocationWithInfo(location: Location.LocationObject): Promise<SpeedLimitLookup> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
     if (!location?.coords) {
       console.warn('⚠️ Invalid location object');
-      return { speedLimit: null, segment: null, distance: Infinity };
+      return this.unmatchedLookup(Infinity);
     }
 
     const { latitude, longitude } = location.coords;
-    if (this.segments.length === 0) {
-      console.warn('⚠️ No speed limit segments available');
-      return { speedLimit: null, segment: null, distance: Infinity };
-    }
-
-    const point = Turf.point([longitude, latitude]);
+    const bearing = this.travelBearing(location);
+    this.lastFixTime = new Date(location.timestamp || Date.now());
     let closestDistance = Infinity;
-    let closestSegment: SpeedLimitSegment | null = null;
+    const candidates: MatchCandidate[] = [];
 
-    for (const segment of this.segments) {
+    // Only segments whose bbox reaches within MAX_DISTANCE_KM can match
+    const nearby = await this.store.queryBBox(bboxAroundPoint(longitude, latitude, this.MAX_DISTANCE_KM));
+    for (const segment of nearby) {
       try {
-        const line = Turf.lineString(segment.geometry);
-        const distance = Turf.pointToLineDistance(point, line, { units: 'kilometers' });
-        if (distance < closestDistance) {
-          closestDistance = distance;
-          closestSegment = segment;
+        const direction = bearing !== null ? travelDirection(segment, longitude, latitude, bearing) : null;
+        const candidate = matchCandidate(segment, longitude, latitude, direction);
+        closestDistance = Math.min(closestDistance, candidate.distance);
+        if (candidate.distance <= this.MAX_DISTANCE_KM) {
+          candidates.push(candidate);
         }
       } catch (error) {
         console.error(`❌ Error processing segment ${segment.id}:`, error);
       }
     }
 
-    if (closestSegment && closestDistance <= this.MAX_DISTANCE_KM) {
+    const matched = this.matcher.update(
+      { longitude, latitude, accuracy: location.coords.accuracy, timestamp: location.timestamp },
+      candidates
+    );
+    this.lastMatch = matched?.candidate ?? null;
+    this.lastUrban = null;
+    if (!matched) {
+      return this.unmatchedLookup(closestDistance);
+    }
+
+    const match = matched.candidate;
+    const urban = await this.urbanAt(match.segment, longitude, latitude);
+    this.lastUrban = urban;
+    const { speedLimit, condition, limitSource, limitConfidence } = this.limitFor(
+      match.segment,
+      match.direction,
+      this.lastFixTime,
+      urban
+    );
+    return {
+      speedLimit,
+      segment: match.segment,
+      distance: match.distance,
+      direction: match.direction,
+      condition,
+      confidence: matched.confidence,
+      limitSource,
+      limitConfidence,
+    };
+  }
+
+  private unmatchedLookup(distance: number): SpeedLimitLookup {
+    return {
+      speedLimit: null,
+      segment: null,
+      distance,
+      direction: null,
+      condition: null,
+      confidence: 0,
+      limitSource: null,
+      limitConfidence: 0,
+    };
+  }
+
+  /**
+   * First limit change along the most likely path ahead of the last matched
+   * position, within `maxKm`. Null when the direction of travel is unknown or
+   * the limit stays the same as far as the path can be predicted.
+   */
+  async getUpcomingSpeedLimit(maxKm = 1): Promise<UpcomingSpeedLimit | null> {
+    if (!this.lastMatch?.direction) return null;
+    const { segment, snapped, along, direction } = this.lastMatch;
+    const graph = await this.getRoadGraph(snapped[0], snapped[1], maxKm);
+    // Judged by the last position, like the limit on display, rather than by each segment's mark
+    const current = this.limitFor(segment, direction, this.lastFixTime, this.lastUrban).speedLimit;
+
+    for (const step of predictPath(graph, { segment, along, direction }, maxKm)) {
+      const { speedLimit } = this.limitFor(step.segment, step.direction, this.lastFixTime, this.lastUrban);
+      if (speedLimit !== current) {
+        return { speedLimit, segment: step.segment, distance: step.distance };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether a position on `segment` is in a built-up area, by the data's
+   * boundary polygons; null when the data has none. Only matters for limits
+   * that come from the default rules.
+   */
+  private async urbanAt(segment: SpeedLimitSegment, longitude: number, latitude: number): Promise<boolean | null> {
+    if (!isEstimatedLimit(segment.limitSource ?? inferLimitSource(segment.tags))) return null;
+    const areas = await this.store.queryUrbanAreas([longitude, latitude, longitude, latitude]);
+    if (areas.length > 0 && isInUrbanArea(areas, [longitude, latitude])) return true;
+    // Segments are only marked when the data has areas, so outside them is rural
+    return segment.urban === undefined ? null : false;
+  }
+
+  // Conditional, directional and vehicle rules applied to a segment's limits.
+  // A reported correction replaces the posted limit; vehicle caps still apply.
+  // Default limits are derived again for `urban` when the position is known,
+  // for the country normalizeSegments resolved, so they only change with it.
+  // DEFAULT_COUNTRY only picks the vehicle caps.
+  private limitFor(
+    segment: SpeedLimitSegment,
+    direction: TravelDirection | null,
+    time: Date,
+    urban: boolean | null = null
+  ): Pick<SpeedLimitLookup, 'speedLimit' | 'condition' | 'limitSource' | 'limitConfidence'> {
+    const override = this.overrides.get(String(segment.id));
+    const country = segment.country ?? this.DEFAULT_COUNTRY;
+    if (override !== undefined) {
       return {
-        speedLimit: closestSegment.speedLimit,
-        segment: closestSegment,
-        distance: closestDistance,
+        speedLimit: vehicleSpeedLimit(segment, override, direction, this.vehicleClass, country),
+        condition: null,
+        limitSource: 'override',
+        limitConfidence: LIMIT_SOURCE_CONFIDENCE.override,
       };
     }
 
-    return { speedLimit: null, segment: null, distance: closestDistance };
+    const conditional = activeConditionalLimit(segment.conditionalLimits, direction, {
+      ...this.roadConditions,
+      time,
+      vehicleClass: this.vehicleClass,
+    });
+    const limitSource = segment.limitSource ?? inferLimitSource(segment.tags);
+    const generalLimit = conditional
+      ? conditional.speedLimit
+      : isEstimatedLimit(limitSource)
+        ? defaultSpeedLimit(roadContext(segment.tags ?? {}, urban ?? segment.urban), segment.country).speedLimit
+        : directionalSpeedLimit(segment, direction);
+    return {
+      speedLimit: vehicleSpeedLimit(segment, generalLimit, direction, this.vehicleClass, country),
+      condition: conditional?.condition ?? null,
+      limitSource,
+      limitConfidence: segment.limitConfidence ?? LIMIT_SOURCE_CONFIDENCE[limitSource],
+    };
   }
 
-  debugSegments() {
-    console.log(`Loaded ${this.segments.length} segments`);
-    this.segments.forEach((s, i) => console.log(`Segment ${i + 1}:`, s));
+  /**
+   * Road graph covering at least `radiusKm` around a point. Graphs are built
+   * from the store with some margin and reused while queries stay inside
+   * and the store is unchanged.
+   */
+  async getRoadGraph(longitude: number, latitude: number, radiusKm: number): Promise<RoadGraph> {
+    const needed = bboxAroundPoint(longitude, latitude, radiusKm);
+    if (this.graphCache?.store === this.store && bboxContains(this.graphCache.bbox, needed)) {
+      return this.graphCache.graph;
+    }
+
+    const bbox = bboxAroundPoint(longitude, latitude, radiusKm + this.GRAPH_MARGIN_KM);
+    const graph = RoadGraph.fromSegments(await this.store.queryBBox(bbox));
+    this.graphCache = { store: this.store, bbox, graph };
+    return graph;
+  }
+
+  /** Segments whose bounding box intersects `bbox`, e.g. to draw them on a map, with corrected limits. */
+  async getSegmentsInBBox(bbox: BBox): Promise<SpeedLimitSegment[]> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+    const segments = await this.store.queryBBox(bbox);
+    return segments.map((segment) => {
+      const override = this.overrides.get(String(segment.id));
+      return override === undefined
+        ? segment
+        : { ...segment, speedLimit: override, limitSource: 'override', limitConfidence: LIMIT_SOURCE_CONFIDENCE.override };
+    });
+  }
+
+  /** Segments reachable from the last matched position within `maxKm` of driving. */
+  async getReachableSegments(maxKm = 0.5): Promise<ReachableSegment[]> {
+    if (!this.lastMatch) return [];
+    const { segment, snapped, along, direction } = this.lastMatch;
+    const graph = await this.getRoadGraph(snapped[0], snapped[1], maxKm);
+    return graph.reachableFrom({ segment, along, direction }, maxKm);
   }
-}
 
-export const speedLimitService = new SpeedLimitService();
+  // Reported heading when moving fast enough for it to be meaningful,
+  // otherwise the bearing from an earlier fix
+  private travelBearing(location: Location.LocationObject): number | null {
+    const { latitude, longitude, heading, speed } = location.coords;
+    let bearing: number | null = null;
+
+    if (typeof heading === 'number' && heading >= 0 && (speed ?? Infinity) >= this.MIN_HEADING_SPEED) {
+      bearing = heading;
+    } else {
+      const current = Turf.point([longitude, latitude]);
+      for (let i = this.recentFixes.length - 1; i >= 0; i--) {
+        const previous = Turf.point([this.recentFixes[i].longitude, this.recentFixes[i].latitude]);
+        if (Turf.distance(previous, current, { units: 'kilometers' }) >= this.MIN_BEARING_DISTANCE_KM) {
+          bearing = (Turf.bearing(previous, current) + 360) % 360;
+          break;
+        }
+      }
+    }
+
+    this.recentFixes.push({ longitude, latitude });
+    if (this.recentFixes.length > this.RECENT_FIX_COUNT) {
+      this.recentFixes.shift();
+    }
+    return bearing;
+  }
+
+  async debugSegments() {
+    console.log(`Loaded ${await this.store.count()} segments`);
+    const segments = await this.store.list(50);
+    segments.forEach((s, i) => console.log(`Segment ${i + 1}:`, s));
+  }
+}
@@ -0,0 +1,226 @@
+import * as Location from 'expo-location';
+import * as Notifications from 'expo-notifications';
+import { AppState, Platform } from 'react-native';
+import { playAlertFeedback } from './alertFeedback';
+import { speedLimitService } from './deviceSpeedLimitService';
+import { deviceLocaleTag, resolveLocale, translate } from './i18n';
+import { AlertEvent, AlertPhase, INITIAL_ALERT_STATE, stepAlert } from './overspeedAlert';
+import { Settings, getSettings } from './settings';
+import { SPEED_STALE_MS, SpeedEstimator } from './speedEstimator';
+import { SpeedLimitLookup, UpcomingSpeedLimit } from './speedLimitService';
+import { tripRecorder } from './tripRecorder';
+import { SPEED_UNITS, convertSpeed, defaultSpeedUnit } from './units';
+
+/**
+ * Runs matching and the overspeed state machine for every fix, whether it
+ * comes from the screen's foreground watcher or the background location task.
+ * Keeping this outside the React tree lets alerts fire with the screen off;
+ * the screen subscribes to snapshots while it is mounted.
+ */
+
+/** Where a fix came from; only real GPS fixes are recorded as trips. */
+export type FixSource = 'gps' | 'simulated';
+
+export interface TrackingSnapshot {
+  location: Location.LocationObject;
+  source: FixSource;
+  /** Smoothed km/h, null before the first usable fix and after a dropout */
+  speed: number | null;
+  lookup: SpeedLimitLookup;
+  upcoming: UpcomingSpeedLimit | null;
+  alertPhase: AlertPhase;
+}
+
+type Listener = (snapshot: TrackingSnapshot) => void;
+
+const ALERT_CHANNEL_ID = 'overspeed';
+
+class SpeedTracker {
+  private alertState = INITIAL_ALERT_STATE;
+  private readonly speedEstimator = new SpeedEstimator();
+  private snapshot: TrackingSnapshot | null = null;
+  private readonly listeners = new Set<Listener>();
+  private notificationId: string | null = null;
+  private channelReady: Promise<void> | null = null;
+  // Fixes are processed one at a time, in the order they arrive
+  private queue: Promise<unknown> = Promise.resolve();
+  // Fixes can stop altogether, e.g. in a tunnel; this drops the speed when they do
+  private staleTimer: ReturnType<typeof setTimeout> | null = null;
+  // Fix time of the last snapshot and when it was processed, ms
+  private lastFixAt: { fixTime: number; receivedAt: number } | null = null;
+
+  getSnapshot(): TrackingSnapshot | null {
+    return this.snapshot;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Starts over from the next fix, without alert or matching history. */
+  reset() {
+    this.clearStaleTimer();
+    this.queue = this.queue.then(() => {
+      this.alertState = INITIAL_ALERT_STATE;
+      this.speedEstimator.reset();
+      speedLimitService.resetMatching();
+    });
+  }
+
+  process(location: Location.LocationObject, source: FixSource = 'gps'): Promise<TrackingSnapshot> {
+    const next = this.queue.then(() => this.update(location, source));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /** Looks the last fix up again, e.g. after a correction changed its limit. It isn't recorded twice. */
+  refresh(): Promise<TrackingSnapshot | null> {
+    const next = this.queue.then(() => {
+      const last = this.snapshot;
+      return last ? this.update(last.location, last.source, false) : null;
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  // `fresh` is false when looking the last fix up again, which neither feeds it to the estimator nor records it
+  private async update(location: Location.LocationObject, source: FixSource, fresh = true): Promise<TrackingSnapshot> {
+    const settings = await getSettings();
+    speedLimitService.setVehicleClass(settings.vehicleClass);
+
+    const lookup = await speedLimitService.getSpeedLimitAtLocationWithInfo(location);
+    const upcoming = lookup.segment ? await speedLimitService.getUpcomingSpeedLimit() : null;
+    const time = fresh ? location.timestamp || Date.now() : this.fixClock();
+    if (fresh) {
+      this.lastFixAt = { fixTime: time, receivedAt: Date.now() };
+    }
+    const { speed } = fresh
+      ? this.speedEstimator.update({
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+          accuracy: location.coords.accuracy,
+          speed: location.coords.speed,
+          timestamp: time,
+        })
+      : this.speedEstimator.reading(time);
+
+    const { state, event } = stepAlert(
+      this.alertState,
+      { speed, speedLimit: lookup.speedLimit, time },
+      settings.alert
+    );
+    this.alertState = state;
+    if (event) {
+      console.log(`🚨 Overspeed ${event}: ${speed?.toFixed(1)} km/h in a ${lookup.speedLimit} zone`);
+      await this.announce(event, speed, lookup.speedLimit, settings);
+    }
+
+    const snapshot = { location, source, speed, lookup, upcoming, alertPhase: state.phase };
+    if (fresh && source === 'gps') {
+      try {
+        await tripRecorder.record(snapshot);
+      } catch (error) {
+        console.error('❌ Error recording trip:', error);
+      }
+    }
+    this.publish(snapshot);
+    return snapshot;
+  }
+
+  private publish(snapshot: TrackingSnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener(snapshot));
+    this.clearStaleTimer();
+    if (snapshot.speed !== null) {
+      this.staleTimer = setTimeout(() => {
+        this.staleTimer = null;
+        this.queue = this.queue.then(() => this.expire()).catch((error) => {
+          console.error('❌ Error dropping stale speed:', error);
+        });
+      }, SPEED_STALE_MS);
+    }
+  }
+
+  // Now, in the time of the last fix; replayed or simulated fix times needn't follow the clock
+  private fixClock(): number {
+    if (!this.lastFixAt) return Date.now();
+    return this.lastFixAt.fixTime + (Date.now() - this.lastFixAt.receivedAt);
+  }
+
+  private clearStaleTimer() {
+    if (this.staleTimer !== null) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  // No fix since the timer was set: the speed is unknown, which clears any alert
+  private async expire() {
+    const last = this.snapshot;
+    if (!last || last.speed === null) return;
+    const time = this.fixClock();
+    const { speed, stale } = this.speedEstimator.reading(time);
+    if (!stale) return;
+
+    const settings = await getSettings();
+    const { state, event } = stepAlert(
+      this.alertState,
+      { speed, speedLimit: last.lookup.speedLimit, time },
+      settings.alert
+    );
+    this.alertState = state;
+    if (event) {
+      console.log(`🚨 Overspeed ${event}: no fix for ${SPEED_STALE_MS / 1000} s`);
+      await this.announce(event, speed, last.lookup.speedLimit, settings);
+    }
+    this.publish({ ...last, speed, alertPhase: state.phase });
+  }
+
+  // Chimes and haptics in the foreground, a local notification otherwise
+  private async announce(event: AlertEvent, speed: number | null, speedLimit: number | null, settings: Settings) {
+    if (AppState.currentState === 'active') {
+      await playAlertFeedback(event, { sound: settings.alertSound, haptics: settings.alertHaptics });
+      return;
+    }
+
+    try {
+      if (event === 'clear') {
+        if (this.notificationId) {
+          await Notifications.dismissNotificationAsync(this.notificationId);
+          this.notificationId = null;
+        }
+        return;
+      }
+      await this.ensureChannel();
+      const localeTag = deviceLocaleTag();
+      const locale = resolveLocale(settings.language, localeTag);
+      const unit = settings.speedUnit ?? defaultSpeedUnit(localeTag);
+      const format = (kmh: number | null) => `${Math.round(convertSpeed(kmh ?? 0, unit))} ${SPEED_UNITS[unit].symbol}`;
+      this.notificationId = await Notifications.scheduleNotificationAsync({
+        content: {
+          title: translate(locale, 'notificationTitle'),
+          body: translate(locale, 'notificationBody', { speed: format(speed), limit: format(speedLimit) }),
+          sound: settings.alertSound,
+        },
+        trigger: Platform.OS === 'android' ? { channelId: ALERT_CHANNEL_ID } : null,
+      });
+    } catch (error) {
+      console.error('❌ Error posting overspeed notification:', error);
+    }
+  }
+
+  private ensureChannel(): Promise<void> {
+    if (Platform.OS !== 'android') return Promise.resolve();
+    this.channelReady ??= Notifications.setNotificationChannelAsync(ALERT_CHANNEL_ID, {
+      name: 'Overspeed alerts',
+      importance: Notifications.AndroidImportance.HIGH,
+      vibrationPattern: [0, 250, 150, 250],
+    }).then(() => undefined);
+    return this.channelReady;
+  }
+}
+
+export const speedTracker = new SpeedTracker();
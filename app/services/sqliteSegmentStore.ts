@@ -0,0 +1,173 @@
+import * as SQLite from 'expo-sqlite';
+import { SegmentStore, normalizeSegments, splitSegmentData } from './segmentStore';
+import { BBox, bboxOfCoordinates } from './spatialIndex';
+import { SpeedLimitSegment } from './types';
+import { UrbanArea, normalizeUrbanAreas, urbanAreaBBox } from './urbanAreas';
+
+interface SegmentRow {
+  data: string;
+}
+
+interface SqliteSegmentStoreOptions {
+  databaseName: string;
+  /** Segments are re-imported whenever this differs from the stored value. */
+  sourceVersion: string;
+  loadSource: () => Promise<unknown> | unknown;
+}
+
+// Bump when the table layout changes; stores from older layouts are re-imported
+const SCHEMA_VERSION = 5;
+
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY NOT NULL, value TEXT);
+`;
+
+// Only the bbox is queried, through an R*Tree keyed on the row's `key`; the
+// rest of the segment or area is stored as JSON. The R*Tree module must be
+// compiled in, see the expo-sqlite build flags in app.json.
+const SEGMENTS_TABLE = `
+DROP TABLE IF EXISTS segments;
+DROP TABLE IF EXISTS segments_bbox;
+CREATE TABLE segments (
+  key INTEGER PRIMARY KEY,
+  id TEXT NOT NULL UNIQUE,
+  data TEXT NOT NULL
+);
+CREATE VIRTUAL TABLE segments_bbox USING rtree(key, min_lon, max_lon, min_lat, max_lat);
+DROP TABLE IF EXISTS urban_areas;
+DROP TABLE IF EXISTS urban_areas_bbox;
+CREATE TABLE urban_areas (
+  key INTEGER PRIMARY KEY,
+  id TEXT NOT NULL UNIQUE,
+  data TEXT NOT NULL
+);
+CREATE VIRTUAL TABLE urban_areas_bbox USING rtree(key, min_lon, max_lon, min_lat, max_lat);
+`;
+
+/**
+ * Imports segments into SQLite once and answers lookups from an R*Tree of
+ * their bboxes, so the full dataset never has to sit in memory.
+ */
+export class SqliteSegmentStore implements SegmentStore {
+  private db: SQLite.SQLiteDatabase | null = null;
+
+  constructor(private readonly options: SqliteSegmentStoreOptions) {}
+
+  private get sourceVersion() {
+    return `${SCHEMA_VERSION}:${this.options.sourceVersion}`;
+  }
+
+  async load(): Promise<number> {
+    const db = await this.open();
+    const stored = await db.getFirstAsync<{ value: string }>(
+      'SELECT value FROM meta WHERE key = ?',
+      'source_version'
+    );
+
+    if (stored?.value !== this.sourceVersion) {
+      console.log(`📥 Importing segments into ${this.options.databaseName} (${this.sourceVersion})...`);
+      const data = await this.options.loadSource();
+      const segments = normalizeSegments(data);
+      const urbanAreas = normalizeUrbanAreas(splitSegmentData(data).urbanAreas);
+      await this.replaceSegments(db, segments, urbanAreas);
+      console.log(`✅ Imported ${segments.length} segments and ${urbanAreas.length} urban areas`);
+    }
+    return this.count();
+  }
+
+  async queryBBox(bbox: BBox): Promise<SpeedLimitSegment[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<SegmentRow>(
+      `SELECT segments.data FROM segments_bbox JOIN segments ON segments.key = segments_bbox.key
+       WHERE segments_bbox.min_lon <= ? AND segments_bbox.max_lon >= ?
+         AND segments_bbox.min_lat <= ? AND segments_bbox.max_lat >= ?`,
+      bbox[2], bbox[0], bbox[3], bbox[1]
+    );
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async queryUrbanAreas(bbox: BBox): Promise<UrbanArea[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<SegmentRow>(
+      `SELECT urban_areas.data FROM urban_areas_bbox JOIN urban_areas ON urban_areas.key = urban_areas_bbox.key
+       WHERE urban_areas_bbox.min_lon <= ? AND urban_areas_bbox.max_lon >= ?
+         AND urban_areas_bbox.min_lat <= ? AND urban_areas_bbox.max_lat >= ?`,
+      bbox[2], bbox[0], bbox[3], bbox[1]
+    );
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async count(): Promise<number> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<{ total: number }>('SELECT COUNT(*) AS total FROM segments');
+    return row?.total ?? 0;
+  }
+
+  async list(limit = -1): Promise<SpeedLimitSegment[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<SegmentRow>(
+      'SELECT data FROM segments ORDER BY key LIMIT ?',
+      Number.isFinite(limit) ? limit : -1
+    );
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async destroy(): Promise<void> {
+    if (this.db) {
+      await this.db.closeAsync();
+      this.db = null;
+    }
+    await SQLite.deleteDatabaseAsync(this.options.databaseName);
+  }
+
+  private async open(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.db) {
+      this.db = await SQLite.openDatabaseAsync(this.options.databaseName);
+      await this.db.execAsync(SCHEMA);
+    }
+    return this.db;
+  }
+
+  private async replaceSegments(db: SQLite.SQLiteDatabase, segments: SpeedLimitSegment[], urbanAreas: UrbanArea[]) {
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.execAsync(SEGMENTS_TABLE);
+      const insert = await txn.prepareAsync('INSERT OR REPLACE INTO segments (key, id, data) VALUES (?, ?, ?)');
+      const insertBBox = await txn.prepareAsync(
+        'INSERT INTO segments_bbox (key, min_lon, max_lon, min_lat, max_lat) VALUES (?, ?, ?, ?, ?)'
+      );
+      try {
+        // A duplicate ID replaces the earlier row; its bbox entry then joins nothing
+        for (let key = 0; key < segments.length; key++) {
+          const segment = segments[key];
+          const [minLon, minLat, maxLon, maxLat] = bboxOfCoordinates(segment.geometry);
+          await insert.executeAsync(key, String(segment.id), JSON.stringify(segment));
+          await insertBBox.executeAsync(key, minLon, maxLon, minLat, maxLat);
+        }
+      } finally {
+        await insert.finalizeAsync();
+        await insertBBox.finalizeAsync();
+      }
+      const insertArea = await txn.prepareAsync('INSERT OR REPLACE INTO urban_areas (key, id, data) VALUES (?, ?, ?)');
+      const insertAreaBBox = await txn.prepareAsync(
+        'INSERT INTO urban_areas_bbox (key, min_lon, max_lon, min_lat, max_lat) VALUES (?, ?, ?, ?, ?)'
+      );
+      try {
+        for (let key = 0; key < urbanAreas.length; key++) {
+          const area = urbanAreas[key];
+          const [minLon, minLat, maxLon, maxLat] = urbanAreaBBox(area);
+          await insertArea.executeAsync(key, area.id, JSON.stringify(area));
+          await insertAreaBBox.executeAsync(key, minLon, maxLon, minLat, maxLat);
+        }
+      } finally {
+        await insertArea.finalizeAsync();
+        await insertAreaBBox.finalizeAsync();
+      }
+      await txn.runAsync(
+        'INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)',
+        'source_version',
+        this.sourceVersion
+      );
+    });
+  }
+}
@@ -0,0 +1,235 @@
+import * as Turf from '@turf/turf';
+import { KMH_PER_KNOT } from './maxspeed';
+
+/**
+ * Parsers for recorded location traces: GPX track logs and NMEA 0183
+ * sentence logs. Pure, so replays and scripts see exactly the same fixes.
+ */
+
+export interface TracePoint {
+  /** ms */
+  time: number;
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  /** m/s, null when the trace has none and it can't be derived */
+  speed: number | null;
+  /** Degrees from north, null when unknown */
+  heading: number | null;
+  /** Horizontal accuracy in metres, when known */
+  accuracy: number | null;
+}
+
+export class TraceParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TraceParseError';
+  }
+}
+
+// Accuracy reported for points from formats without one
+const DEFAULT_ACCURACY_M = 5;
+// Approximate horizontal accuracy per unit of HDOP
+const METERS_PER_HDOP = 5;
+
+function attribute(tag: string, name: string): number | null {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`));
+  return match ? parseFloat(match[1]) : null;
+}
+
+function element(body: string, name: string): string | null {
+  const match = body.match(new RegExp(`<(?:\\w+:)?${name}>([^<]*)</(?:\\w+:)?${name}>`));
+  return match ? match[1].trim() : null;
+}
+
+function numberOrNull(value: string | null): number | null {
+  if (value === null || value === '') return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Speed and heading derived from neighbouring points where the trace has
+ * none; speeds recorded by the receiver are kept.
+ */
+export function fillMotion(points: TracePoint[]): TracePoint[] {
+  return points.map((point, i) => {
+    const previous = points[i - 1];
+    const next = points[i + 1];
+    const [from, to] = previous ? [previous, point] : next ? [point, next] : [null, null];
+    if (!from || !to || to.time <= from.time) return point;
+
+    const a = Turf.point([from.longitude, from.latitude]);
+    const b = Turf.point([to.longitude, to.latitude]);
+    const meters = Turf.distance(a, b, { units: 'kilometers' }) * 1000;
+    return {
+      ...point,
+      speed: point.speed ?? meters / ((to.time - from.time) / 1000),
+      heading: point.heading ?? (meters > 0.5 ? (Turf.bearing(a, b) + 360) % 360 : null),
+    };
+  });
+}
+
+/**
+ * Track points of a GPX 1.0/1.1 file. Speed comes from `<speed>` (m/s, as
+ * in GPX 1.0 and Garmin's TrackPointExtension) or MaxVel's own km/h extension.
+ */
+export function parseGpx(xml: string): TracePoint[] {
+  const points: TracePoint[] = [];
+  const trackPoint = /<trkpt\b([^>]*)>([\s\S]*?)<\/trkpt>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = trackPoint.exec(xml))) {
+    const [, attributes, body] = match;
+    const latitude = attribute(attributes, 'lat');
+    const longitude = attribute(attributes, 'lon');
+    const time = element(body, 'time');
+    if (latitude === null || longitude === null || !time) continue;
+
+    const kmh = numberOrNull(body.match(/<maxvel:speed>([^<]*)</)?.[1] ?? null);
+    const hdop = numberOrNull(element(body, 'hdop'));
+    points.push({
+      time: Date.parse(time),
+      latitude,
+      longitude,
+      altitude: numberOrNull(element(body, 'ele')),
+      speed: kmh !== null ? kmh / 3.6 : numberOrNull(element(body, 'speed')),
+      heading: numberOrNull(element(body, 'course')),
+      accuracy: hdop !== null ? hdop * METERS_PER_HDOP : DEFAULT_ACCURACY_M,
+    });
+  }
+
+  // Repeated or unordered timestamps can't be replayed
+  const ordered = points
+    .filter((point) => Number.isFinite(point.time))
+    .sort((a, b) => a.time - b.time)
+    .filter((point, i, all) => i === 0 || point.time > all[i - 1].time);
+  if (ordered.length === 0) {
+    throw new TraceParseError('No timed track points found in GPX');
+  }
+  return fillMotion(ordered);
+}
+
+function validChecksum(sentence: string): boolean {
+  const star = sentence.lastIndexOf('*');
+  if (star === -1) return true; // Checksums are optional
+  let sum = 0;
+  for (let i = 1; i < star; i++) sum ^= sentence.charCodeAt(i);
+  return sum === parseInt(sentence.slice(star + 1, star + 3), 16);
+}
+
+// ddmm.mmmm / dddmm.mmmm with a hemisphere letter
+function nmeaCoordinate(value: string, hemisphere: string): number | null {
+  if (!value) return null;
+  const dot = value.indexOf('.');
+  const degreeDigits = (dot === -1 ? value.length : dot) - 2;
+  const degrees = parseInt(value.slice(0, degreeDigits), 10);
+  const minutes = parseFloat(value.slice(degreeDigits));
+  if (!Number.isFinite(degrees) || !Number.isFinite(minutes)) return null;
+  const coordinate = degrees + minutes / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -coordinate : coordinate;
+}
+
+// hhmmss.ss on the day given as ms since the epoch
+function nmeaTime(day: number, value: string): number | null {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2}(?:\.\d+)?)$/);
+  if (!match) return null;
+  return day + (parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3])) * 1000;
+}
+
+// ddmmyy
+function nmeaDate(value: string): number | null {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  return Date.UTC(2000 + parseInt(match[3], 10), parseInt(match[2], 10) - 1, parseInt(match[1], 10));
+}
+
+/**
+ * Fixes from an NMEA 0183 log. RMC sentences give position, date, speed and
+ * course; GGA sentences with the same time add altitude and HDOP. GGA fixes
+ * before the first RMC take its date; logs with GGA only are placed on
+ * 1 January 1970, which is fine for replay.
+ */
+export function parseNmea(text: string): TracePoint[] {
+  const byTime = new Map<string, TracePoint>();
+  let day = 0;
+  let lastTime = -Infinity;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const sentence = raw.trim();
+    if (!sentence.startsWith('$') || !validChecksum(sentence)) continue;
+    const fields = sentence.replace(/\*[0-9A-Fa-f]{2}$/, '').split(',');
+    const type = fields[0].slice(3);
+
+    if (type === 'RMC') {
+      // $GPRMC,time,status,lat,N,lon,E,knots,course,date,...
+      if (fields[2] !== 'A') continue;
+      const date = nmeaDate(fields[9]);
+      if (date !== null && day === 0) {
+        // Move the fixes so far from day 0 onto the date, or the day before
+        // for those logged before midnight
+        const dated = nmeaTime(date, fields[1]) ?? date;
+        lastTime = -Infinity;
+        for (const point of byTime.values()) {
+          point.time += date;
+          while (point.time > dated + 12 * 3600 * 1000) point.time -= 24 * 3600 * 1000;
+          lastTime = Math.max(lastTime, point.time);
+        }
+      }
+      day = date ?? day;
+    } else if (type === 'GGA') {
+      // $GPGGA,time,lat,N,lon,E,quality,satellites,hdop,altitude,M,...
+      if (fields[6] === '0') continue;
+    } else {
+      continue;
+    }
+
+    let time = nmeaTime(day, fields[1]);
+    if (time === null) continue;
+    // GGA-only logs that run past midnight
+    while (time < lastTime - 12 * 3600 * 1000) time += 24 * 3600 * 1000;
+    lastTime = Math.max(lastTime, time);
+
+    const key = fields[1];
+    const [latField, latHemisphere, lonField, lonHemisphere] = fields.slice(type === 'RMC' ? 3 : 2);
+    const latitude = nmeaCoordinate(latField, latHemisphere);
+    const longitude = nmeaCoordinate(lonField, lonHemisphere);
+    if (latitude === null || longitude === null) continue;
+
+    const point: TracePoint = byTime.get(key) ?? {
+      time,
+      latitude,
+      longitude,
+      altitude: null,
+      speed: null,
+      heading: null,
+      accuracy: DEFAULT_ACCURACY_M,
+    };
+    if (type === 'RMC') {
+      const knots = numberOrNull(fields[7]);
+      point.time = time;
+      point.speed = knots !== null ? (knots * KMH_PER_KNOT) / 3.6 : null;
+      point.heading = numberOrNull(fields[8]);
+    } else {
+      const hdop = numberOrNull(fields[8]);
+      point.altitude = numberOrNull(fields[9]);
+      if (hdop !== null) point.accuracy = hdop * METERS_PER_HDOP;
+    }
+    byTime.set(key, point);
+  }
+
+  const points = [...byTime.values()].sort((a, b) => a.time - b.time);
+  if (points.length === 0) {
+    throw new TraceParseError('No valid RMC or GGA sentences found in NMEA log');
+  }
+  return fillMotion(points);
+}
+
+/** Parses a trace by file extension, falling back to sniffing the content. */
+export function parseTrace(text: string, fileName = ''): TracePoint[] {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx' || (extension !== 'nmea' && text.trimStart().startsWith('<'))) {
+    return parseGpx(text);
+  }
+  return parseNmea(text);
+}
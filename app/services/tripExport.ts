@@ -0,0 +1,247 @@
+import { OverspeedInterval, Trip, TripFix, splitAtGaps } from './trips';
+
+/**
+ * Trip exporters for desktop GIS tools. Pure string builders: the recorded
+ * track goes out as one feature, each violation stretch as its own styled
+ * feature, so the output for a given trip is always byte-for-byte the same.
+ */
+
+export type TripExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface TripExportData {
+  trip: Trip;
+  fixes: TripFix[];
+  intervals: OverspeedInterval[];
+}
+
+export const EXPORT_FORMATS: Record<TripExportFormat, { extension: string; mimeType: string; uti: string }> = {
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml', uti: 'com.topografix.gpx' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml', uti: 'com.google.earth.kml' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', uti: 'public.json' },
+};
+
+const GPX_EXTENSION_NAMESPACE = 'urn:maxvel:gpx:1';
+const TRACK_COLOR = '#3498db';
+const VIOLATION_COLOR = '#e74c3c';
+
+export function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isoTime(time: number) {
+  return new Date(time).toISOString();
+}
+
+function round(value: number, digits: number) {
+  return Number(value.toFixed(digits));
+}
+
+function tripName(trip: Trip) {
+  return `Trip ${trip.id} – ${isoTime(trip.startedAt)}`;
+}
+
+function violationName(interval: OverspeedInterval) {
+  const road = interval.road ? ` on ${interval.road}` : '';
+  return `${Math.round(interval.maxSpeed)} km/h in a ${Math.round(interval.speedLimit)} km/h zone${road}`;
+}
+
+// Fixes recorded while a violation lasted, including the one ending it
+function violationFixes(fixes: TripFix[], interval: OverspeedInterval) {
+  return fixes.filter((fix) => fix.time >= interval.start && fix.time <= interval.end);
+}
+
+// KML colours are aabbggrr
+function kmlColor(hex: string) {
+  return `ff${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`;
+}
+
+function gpxPoint(fix: TripFix) {
+  const extensions = [
+    fix.speed !== null ? `<maxvel:speed>${round(fix.speed, 1)}</maxvel:speed>` : '',
+    fix.speedLimit !== null ? `<maxvel:speedLimit>${round(fix.speedLimit, 1)}</maxvel:speedLimit>` : '',
+    fix.overspeed ? '<maxvel:overspeed>true</maxvel:overspeed>' : '',
+  ].join('');
+  return [
+    `      <trkpt lat="${round(fix.latitude, 7)}" lon="${round(fix.longitude, 7)}">`,
+    `        <time>${isoTime(fix.time)}</time>`,
+    extensions ? `        <extensions>${extensions}</extensions>` : null,
+    '      </trkpt>',
+  ]
+    .filter((line) => line !== null)
+    .join('\n');
+}
+
+function gpxTrack(name: string, type: string, segments: TripFix[][]) {
+  return [
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <type>${type}</type>`,
+    ...segments.map((fixes) => ['    <trkseg>', ...fixes.map(gpxPoint), '    </trkseg>'].join('\n')),
+    '  </trk>',
+  ].join('\n');
+}
+
+/** GPX 1.1 with speed and limit in km/h as track point extensions. */
+export function tripToGpx({ trip, fixes, intervals }: TripExportData): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="MaxVel" xmlns="http://www.topografix.com/GPX/1/1" xmlns:maxvel="${GPX_EXTENSION_NAMESPACE}">`,
+    '  <metadata>',
+    `    <name>${escapeXml(tripName(trip))}</name>`,
+    `    <time>${isoTime(trip.startedAt)}</time>`,
+    '  </metadata>',
+    gpxTrack(tripName(trip), 'trip', splitAtGaps(fixes)),
+    ...intervals.map((interval) => gpxTrack(violationName(interval), 'violation', [violationFixes(fixes, interval)])),
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+function kmlCoordinates(fixes: TripFix[]) {
+  return fixes.map((fix) => `${round(fix.longitude, 7)},${round(fix.latitude, 7)}`).join(' ');
+}
+
+function kmlData(data: Record<string, string | number | null>) {
+  const entries = Object.entries(data).filter(([, value]) => value !== null);
+  return [
+    '      <ExtendedData>',
+    ...entries.map(([name, value]) => `        <Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`),
+    '      </ExtendedData>',
+  ].join('\n');
+}
+
+function kmlLines(stretches: TripFix[][]) {
+  const lines = stretches
+    .filter((fixes) => fixes.length > 1)
+    .map((fixes) => `        <LineString><tessellate>1</tessellate><coordinates>${kmlCoordinates(fixes)}</coordinates></LineString>`);
+  return ['      <MultiGeometry>', ...lines, '      </MultiGeometry>'].join('\n');
+}
+
+// A violation caught by a single fix, e.g. on the last fix of a trip, has no line to draw
+function kmlViolationGeometry(fixes: TripFix[]) {
+  if (fixes.length !== 1) return kmlLines([fixes]);
+  return `      <Point><coordinates>${kmlCoordinates(fixes)}</coordinates></Point>`;
+}
+
+/** KML with the track and each violation as styled placemarks. */
+export function tripToKml({ trip, fixes, intervals }: TripExportData): string {
+  const summary = trip.summary;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(tripName(trip))}</name>`,
+    `    <Style id="track"><LineStyle><color>${kmlColor(TRACK_COLOR)}</color><width>3</width></LineStyle></Style>`,
+    `    <Style id="violation"><LineStyle><color>${kmlColor(VIOLATION_COLOR)}</color><width>6</width></LineStyle></Style>`,
+    '    <Placemark>',
+    `      <name>${escapeXml(tripName(trip))}</name>`,
+    '      <styleUrl>#track</styleUrl>',
+    `      <TimeSpan><begin>${isoTime(trip.startedAt)}</begin>${
+      trip.endedAt !== null ? `<end>${isoTime(trip.endedAt)}</end>` : ''
+    }</TimeSpan>`,
+    kmlData({
+      distanceKm: summary ? round(summary.distance, 3) : null,
+      maxSpeedKmh: summary ? round(summary.maxSpeed, 1) : null,
+      overspeedSeconds: summary ? Math.round(summary.overspeedDuration / 1000) : null,
+    }),
+    kmlLines(splitAtGaps(fixes)),
+    '    </Placemark>',
+    ...intervals.map((interval) =>
+      [
+        '    <Placemark>',
+        `      <name>${escapeXml(violationName(interval))}</name>`,
+        '      <styleUrl>#violation</styleUrl>',
+        `      <TimeSpan><begin>${isoTime(interval.start)}</begin><end>${isoTime(interval.end)}</end></TimeSpan>`,
+        kmlData({
+          maxSpeedKmh: round(interval.maxSpeed, 1),
+          speedLimitKmh: round(interval.speedLimit, 1),
+          road: interval.road,
+          segmentId: interval.segmentId,
+        }),
+        kmlViolationGeometry(violationFixes(fixes, interval)),
+        '    </Placemark>',
+      ].join('\n')
+    ),
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+function pointCoordinates(fix: TripFix) {
+  return [round(fix.longitude, 7), round(fix.latitude, 7)];
+}
+
+function lineCoordinates(fixes: TripFix[]) {
+  return fixes.map(pointCoordinates);
+}
+
+// A LineString needs two positions, so a violation caught by a single fix is a Point
+function violationGeometry(fixes: TripFix[]) {
+  if (fixes.length === 0) return null;
+  if (fixes.length === 1) return { type: 'Point', coordinates: pointCoordinates(fixes[0]) };
+  return { type: 'LineString', coordinates: lineCoordinates(fixes) };
+}
+
+/** GeoJSON FeatureCollection styled with the simplestyle-spec properties. */
+export function tripToGeoJson({ trip, fixes, intervals }: TripExportData): string {
+  // Fixes isolated by gaps on both sides can't be part of a line
+  const stretches = splitAtGaps(fixes).filter((stretch) => stretch.length > 1);
+  const drawn = stretches.flat();
+  const track = {
+    type: 'Feature',
+    properties: {
+      kind: 'track',
+      name: tripName(trip),
+      startedAt: isoTime(trip.startedAt),
+      endedAt: trip.endedAt !== null ? isoTime(trip.endedAt) : null,
+      ...(trip.summary && {
+        distanceKm: round(trip.summary.distance, 3),
+        maxSpeedKmh: round(trip.summary.maxSpeed, 1),
+        overspeedSeconds: Math.round(trip.summary.overspeedDuration / 1000),
+      }),
+      // Per-vertex values, in the order of the line coordinates
+      times: drawn.map((fix) => isoTime(fix.time)),
+      speedsKmh: drawn.map((fix) => (fix.speed !== null ? round(fix.speed, 1) : null)),
+      speedLimitsKmh: drawn.map((fix) => (fix.speedLimit !== null ? round(fix.speedLimit, 1) : null)),
+      stroke: TRACK_COLOR,
+      'stroke-width': 3,
+    },
+    geometry: { type: 'MultiLineString', coordinates: stretches.map(lineCoordinates) },
+  };
+
+  const violations = intervals.map((interval) => ({
+    type: 'Feature',
+    properties: {
+      kind: 'violation',
+      name: violationName(interval),
+      startedAt: isoTime(interval.start),
+      endedAt: isoTime(interval.end),
+      maxSpeedKmh: round(interval.maxSpeed, 1),
+      speedLimitKmh: round(interval.speedLimit, 1),
+      road: interval.road,
+      segmentId: interval.segmentId,
+      stroke: VIOLATION_COLOR,
+      'stroke-width': 6,
+    },
+    geometry: violationGeometry(violationFixes(fixes, interval)),
+  }));
+
+  return JSON.stringify({ type: 'FeatureCollection', features: [track, ...violations] }, null, 2) + '\n';
+}
+
+export function exportTrip(format: TripExportFormat, data: TripExportData): string {
+  switch (format) {
+    case 'gpx':
+      return tripToGpx(data);
+    case 'kml':
+      return tripToKml(data);
+    case 'geojson':
+      return tripToGeoJson(data);
+  }
+}
@@ -0,0 +1,76 @@
+import { TripStore, tripStore } from './tripStore';
+import { TripFix } from './trips';
+import { UNNAMED_ROAD } from './types';
+import type { TrackingSnapshot } from './speedTracker';
+
+/**
+ * Splits the stream of tracked fixes into trips. A trip starts once the
+ * vehicle moves faster than walking pace and ends after it has stood still,
+ * or stopped reporting fixes, for a few minutes.
+ */
+export class TripRecorder {
+  private tripId: number | null = null;
+  private lastMovingAt = 0;
+  private lastFixAt = 0;
+  private recovered = false;
+
+  private readonly START_SPEED_KMH = 10;
+  private readonly MOVING_SPEED_KMH = 5;
+  private readonly STOP_TIMEOUT_MS = 5 * 60 * 1000;
+
+  constructor(private readonly store: TripStore = tripStore) {}
+
+  get currentTripId(): number | null {
+    return this.tripId;
+  }
+
+  async record(snapshot: TrackingSnapshot): Promise<void> {
+    const { location, speed, lookup, alertPhase } = snapshot;
+    const time = location.timestamp || Date.now();
+
+    if (!this.recovered) {
+      this.recovered = true;
+      await this.store.finishOpenTrips();
+    }
+
+    if (this.tripId !== null && (time - this.lastMovingAt > this.STOP_TIMEOUT_MS || time - this.lastFixAt > this.STOP_TIMEOUT_MS)) {
+      await this.finish();
+    }
+
+    const moving = (speed ?? 0) >= this.MOVING_SPEED_KMH;
+    if (this.tripId === null) {
+      if ((speed ?? 0) < this.START_SPEED_KMH) return;
+      this.tripId = await this.store.startTrip(time);
+      console.log(`🚗 Trip ${this.tripId} started`);
+    }
+    if (moving) this.lastMovingAt = time;
+    this.lastFixAt = time;
+
+    const segment = lookup.segment;
+    const fix: TripFix = {
+      time,
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      speed,
+      accuracy: location.coords.accuracy,
+      speedLimit: lookup.speedLimit,
+      segmentId: segment ? String(segment.id) : null,
+      road: segment ? (segment.name !== UNNAMED_ROAD && segment.name) || segment.tags?.ref || null : null,
+      overspeed: alertPhase === 'alerting',
+    };
+    await this.store.addFix(this.tripId, fix);
+  }
+
+  /** Ends the current trip, e.g. when tracking is switched off. */
+  async finish(): Promise<void> {
+    if (this.tripId === null) return;
+    const tripId = this.tripId;
+    this.tripId = null;
+    const summary = await this.store.finishTrip(tripId);
+    if (summary) {
+      console.log(`🏁 Trip ${tripId} finished: ${summary.distance.toFixed(1)} km, ${summary.overspeedCount} violations`);
+    }
+  }
+}
+
+export const tripRecorder = new TripRecorder();
@@ -0,0 +1,31 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { EXPORT_FORMATS, TripExportFormat, exportTrip } from './tripExport';
+import { TripStore, tripStore } from './tripStore';
+
+export class TripShareError extends Error {
+  constructor(message: string, public readonly tripId?: number) {
+    super(message);
+    this.name = 'TripShareError';
+  }
+}
+
+/** Writes the trip in the given format to the cache and opens the share sheet. */
+export async function shareTrip(tripId: number, format: TripExportFormat, store: TripStore = tripStore): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new TripShareError('Sharing is not available on this device', tripId);
+  }
+  const trip = await store.getTrip(tripId);
+  if (!trip) {
+    throw new TripShareError(`Trip ${tripId} not found`, tripId);
+  }
+
+  const [fixes, intervals] = await Promise.all([store.getFixes(tripId), store.getOverspeedIntervals(tripId)]);
+  const { extension, mimeType, uti } = EXPORT_FORMATS[format];
+  const date = new Date(trip.startedAt).toISOString().slice(0, 10);
+  const uri = `${FileSystem.cacheDirectory}maxvel-trip-${trip.id}-${date}.${extension}`;
+
+  await FileSystem.writeAsStringAsync(uri, exportTrip(format, { trip, fixes, intervals }));
+  console.log(`📤 Sharing trip ${trip.id} as ${format.toUpperCase()}`);
+  await Sharing.shareAsync(uri, { mimeType, UTI: uti, dialogTitle: `Export trip ${trip.id}` });
+}
@@ -0,0 +1,200 @@
+import * as SQLite from 'expo-sqlite';
+import { OverspeedInterval, Trip, TripFix, TripSummary, overspeedIntervals, summarizeTrip } from './trips';
+
+interface TripRow {
+  id: number;
+  started_at: number;
+  ended_at: number | null;
+  summary: string | null;
+}
+
+interface FixRow {
+  time: number;
+  latitude: number;
+  longitude: number;
+  speed: number | null;
+  accuracy: number | null;
+  speed_limit: number | null;
+  segment_id: string | null;
+  road: string | null;
+  overspeed: number;
+}
+
+interface IntervalRow {
+  started_at: number;
+  ended_at: number;
+  max_speed: number;
+  speed_limit: number;
+  segment_id: string | null;
+  road: string | null;
+}
+
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+PRAGMA foreign_keys = ON;
+CREATE TABLE IF NOT EXISTS trips (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  started_at INTEGER NOT NULL,
+  ended_at INTEGER,
+  summary TEXT
+);
+CREATE TABLE IF NOT EXISTS trip_fixes (
+  trip_id INTEGER NOT NULL REFERENCES trips (id) ON DELETE CASCADE,
+  time INTEGER NOT NULL,
+  latitude REAL NOT NULL,
+  longitude REAL NOT NULL,
+  speed REAL,
+  accuracy REAL,
+  speed_limit REAL,
+  segment_id TEXT,
+  road TEXT,
+  overspeed INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS trip_fixes_trip ON trip_fixes (trip_id, time);
+CREATE TABLE IF NOT EXISTS overspeed_intervals (
+  trip_id INTEGER NOT NULL REFERENCES trips (id) ON DELETE CASCADE,
+  started_at INTEGER NOT NULL,
+  ended_at INTEGER NOT NULL,
+  max_speed REAL NOT NULL,
+  speed_limit REAL NOT NULL,
+  segment_id TEXT,
+  road TEXT
+);
+CREATE INDEX IF NOT EXISTS overspeed_intervals_trip ON overspeed_intervals (trip_id, started_at);
+`;
+
+function toTrip(row: TripRow): Trip {
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    summary: row.summary ? JSON.parse(row.summary) : null,
+  };
+}
+
+/**
+ * Recorded trips in SQLite: every fix with its matched segment, and the
+ * overspeed intervals and summary written when the trip is finished.
+ */
+export class TripStore {
+  private db: SQLite.SQLiteDatabase | null = null;
+
+  constructor(private readonly databaseName = 'trips.db') {}
+
+  async startTrip(startedAt: number): Promise<number> {
+    const db = await this.open();
+    const result = await db.runAsync('INSERT INTO trips (started_at) VALUES (?)', startedAt);
+    return result.lastInsertRowId;
+  }
+
+  async addFix(tripId: number, fix: TripFix): Promise<void> {
+    const db = await this.open();
+    await db.runAsync(
+      `INSERT INTO trip_fixes
+       (trip_id, time, latitude, longitude, speed, accuracy, speed_limit, segment_id, road, overspeed)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      tripId, fix.time, fix.latitude, fix.longitude, fix.speed, fix.accuracy,
+      fix.speedLimit, fix.segmentId, fix.road, fix.overspeed ? 1 : 0
+    );
+  }
+
+  /** Stores the overspeed intervals and summary computed from the trip's fixes. */
+  async finishTrip(tripId: number): Promise<TripSummary | null> {
+    const db = await this.open();
+    const fixes = await this.getFixes(tripId);
+    if (fixes.length < 2) {
+      await this.deleteTrip(tripId); // Nothing worth keeping
+      return null;
+    }
+
+    const summary = summarizeTrip(fixes);
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.runAsync('DELETE FROM overspeed_intervals WHERE trip_id = ?', tripId);
+      for (const interval of overspeedIntervals(fixes)) {
+        await txn.runAsync(
+          `INSERT INTO overspeed_intervals
+           (trip_id, started_at, ended_at, max_speed, speed_limit, segment_id, road)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          tripId, interval.start, interval.end, interval.maxSpeed,
+          interval.speedLimit, interval.segmentId, interval.road
+        );
+      }
+      await txn.runAsync(
+        'UPDATE trips SET ended_at = ?, summary = ? WHERE id = ?',
+        fixes[fixes.length - 1].time,
+        JSON.stringify(summary),
+        tripId
+      );
+    });
+    return summary;
+  }
+
+  /** Finishes trips left open when the app was killed mid-drive. */
+  async finishOpenTrips(): Promise<void> {
+    const db = await this.open();
+    const open = await db.getAllAsync<{ id: number }>('SELECT id FROM trips WHERE ended_at IS NULL');
+    for (const { id } of open) {
+      await this.finishTrip(id);
+    }
+  }
+
+  /** Newest first. */
+  async listTrips(): Promise<Trip[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<TripRow>('SELECT * FROM trips ORDER BY started_at DESC');
+    return rows.map(toTrip);
+  }
+
+  async getTrip(tripId: number): Promise<Trip | null> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<TripRow>('SELECT * FROM trips WHERE id = ?', tripId);
+    return row ? toTrip(row) : null;
+  }
+
+  async getFixes(tripId: number): Promise<TripFix[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<FixRow>('SELECT * FROM trip_fixes WHERE trip_id = ? ORDER BY time', tripId);
+    return rows.map((row) => ({
+      time: row.time,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      speed: row.speed,
+      accuracy: row.accuracy,
+      speedLimit: row.speed_limit,
+      segmentId: row.segment_id,
+      road: row.road,
+      overspeed: row.overspeed === 1,
+    }));
+  }
+
+  async getOverspeedIntervals(tripId: number): Promise<OverspeedInterval[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<IntervalRow>(
+      'SELECT * FROM overspeed_intervals WHERE trip_id = ? ORDER BY started_at',
+      tripId
+    );
+    return rows.map((row) => ({
+      start: row.started_at,
+      end: row.ended_at,
+      maxSpeed: row.max_speed,
+      speedLimit: row.speed_limit,
+      segmentId: row.segment_id,
+      road: row.road,
+    }));
+  }
+
+  async deleteTrip(tripId: number): Promise<void> {
+    const db = await this.open();
+    await db.runAsync('DELETE FROM trips WHERE id = ?', tripId);
+  }
+
+  private async open(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.db) {
+      this.db = await SQLite.openDatabaseAsync(this.databaseName);
+      await this.db.execAsync(SCHEMA);
+    }
+    return this.db;
+  }
+}
+
+export const tripStore = new TripStore();
@@ -0,0 +1,179 @@
+import * as Turf from '@turf/turf';
+import { UNNAMED_ROAD } from './types';
+
+/**
+ * Trip data and the statistics drivers review afterwards. Pure, so summaries
+ * can be recomputed from stored fixes or in scripts.
+ */
+
+export interface TripFix {
+  /** ms */
+  time: number;
+  latitude: number;
+  longitude: number;
+  /** km/h, null when the fix has no speed */
+  speed: number | null;
+  accuracy: number | null;
+  /** km/h, null when there is no limit or no segment matched */
+  speedLimit: number | null;
+  segmentId: string | null;
+  road: string | null;
+  /** Whether the overspeed alert was active at this fix */
+  overspeed: boolean;
+}
+
+export interface OverspeedInterval {
+  /** ms */
+  start: number;
+  end: number;
+  /** km/h */
+  maxSpeed: number;
+  speedLimit: number;
+  segmentId: string | null;
+  road: string | null;
+}
+
+export interface RoadSummary {
+  road: string;
+  /** Segment of a road with neither name nor ref; null for roads grouped by name */
+  segmentId: string | null;
+  /** km */
+  distance: number;
+  /** ms */
+  duration: number;
+  overspeedDuration: number;
+  /** km/h */
+  maxSpeed: number;
+}
+
+export interface TripSummary {
+  /** km */
+  distance: number;
+  /** ms from the first to the last fix */
+  duration: number;
+  /** km/h */
+  maxSpeed: number;
+  /** km/h over the recorded stretches, leaving out gaps */
+  averageSpeed: number;
+  /** ms spent with the overspeed alert active */
+  overspeedDuration: number;
+  overspeedCount: number;
+  /** Interval with the largest excess over the limit */
+  worstViolation: OverspeedInterval | null;
+  /** Longest distance first */
+  roads: RoadSummary[];
+}
+
+export interface Trip {
+  id: number;
+  startedAt: number;
+  endedAt: number | null;
+  /** Null until the trip is finished */
+  summary: TripSummary | null;
+}
+
+/** Fix pairs further apart than this are a gap in the recording, not driving. */
+export const MAX_FIX_GAP_MS = 60000;
+
+function fixKm(a: TripFix, b: TripFix) {
+  return Turf.distance(Turf.point([a.longitude, a.latitude]), Turf.point([b.longitude, b.latitude]), {
+    units: 'kilometers',
+  });
+}
+
+/** Splits fixes into continuously recorded stretches. */
+export function splitAtGaps(fixes: TripFix[]): TripFix[][] {
+  const stretches: TripFix[][] = [];
+  fixes.forEach((fix, i) => {
+    if (i === 0 || fix.time - fixes[i - 1].time > MAX_FIX_GAP_MS) stretches.push([]);
+    stretches[stretches.length - 1].push(fix);
+  });
+  return stretches;
+}
+
+/** Consecutive runs of fixes with the alert active; each ends at the first fix back under. */
+export function overspeedIntervals(fixes: TripFix[]): OverspeedInterval[] {
+  const intervals: OverspeedInterval[] = [];
+  let current: OverspeedInterval | null = null;
+
+  for (const fix of fixes) {
+    if (fix.overspeed && fix.speedLimit !== null) {
+      if (!current) {
+        current = { start: fix.time, end: fix.time, maxSpeed: 0, speedLimit: fix.speedLimit, segmentId: null, road: null };
+        intervals.push(current);
+      }
+      current.end = fix.time;
+      // The violation is described by its fastest fix
+      if ((fix.speed ?? 0) - fix.speedLimit >= current.maxSpeed - current.speedLimit) {
+        current.maxSpeed = fix.speed ?? 0;
+        current.speedLimit = fix.speedLimit;
+        current.segmentId = fix.segmentId;
+        current.road = fix.road;
+      }
+    } else if (current) {
+      current.end = fix.time;
+      current = null;
+    }
+  }
+  return intervals;
+}
+
+export function summarizeTrip(fixes: TripFix[]): TripSummary {
+  const intervals = overspeedIntervals(fixes);
+  const roads = new Map<string, RoadSummary>();
+  let distance = 0;
+  let recordedMs = 0;
+  let overspeedDuration = 0;
+  let maxSpeed = 0;
+
+  fixes.forEach((fix, i) => {
+    maxSpeed = Math.max(maxSpeed, fix.speed ?? 0);
+    // Roads without a name or ref are told apart by segment rather than lumped together
+    const name = fix.road !== UNNAMED_ROAD ? fix.road : null;
+    const segmentId = name === null ? fix.segmentId : null;
+    const key = name !== null ? `road:${name}` : `segment:${segmentId}`;
+    const road = roads.get(key) ?? {
+      road: name ?? UNNAMED_ROAD,
+      segmentId,
+      distance: 0,
+      duration: 0,
+      overspeedDuration: 0,
+      maxSpeed: 0,
+    };
+    road.maxSpeed = Math.max(road.maxSpeed, fix.speed ?? 0);
+    roads.set(key, road);
+
+    // Each stretch between two fixes counts towards the road of its first fix
+    const next = fixes[i + 1];
+    if (!next || next.time - fix.time > MAX_FIX_GAP_MS) return;
+    const km = fixKm(fix, next);
+    const ms = next.time - fix.time;
+    distance += km;
+    recordedMs += ms;
+    road.distance += km;
+    road.duration += ms;
+    if (fix.overspeed) {
+      overspeedDuration += ms;
+      road.overspeedDuration += ms;
+    }
+  });
+
+  const worstViolation = intervals.reduce<OverspeedInterval | null>((worst, interval) => {
+    if (!worst) return interval;
+    const excess = interval.maxSpeed - interval.speedLimit;
+    const worstExcess = worst.maxSpeed - worst.speedLimit;
+    if (excess !== worstExcess) return excess > worstExcess ? interval : worst;
+    return interval.end - interval.start > worst.end - worst.start ? interval : worst;
+  }, null);
+
+  return {
+    distance,
+    duration: fixes.length > 0 ? fixes[fixes.length - 1].time - fixes[0].time : 0,
+    maxSpeed,
+    averageSpeed: recordedMs > 0 ? distance / (recordedMs / 3600000) : 0,
+    overspeedDuration,
+    overspeedCount: intervals.length,
+    worstViolation,
+    roads: [...roads.values()].sort((a, b) => b.distance - a.distance),
+  };
+}
@@ -0,0 +1,60 @@
+import { ConditionalSpeedLimit } from './maxspeed';
+import { LimitSource } from './provenance';
+
+/** `name` of segments whose way has no name tag */
+export const UNNAMED_ROAD = 'Unnamed Road';
+
+export interface SpeedLimitSegment {
+  id: string | number;
+  name: string;
+  type: string;
+  /** km/h; null when the road has no posted maximum (maxspeed=none) */
+  speedLimit: number | null;
+  /** Per-direction limits, relative to the order of `geometry` */
+  speedLimitForward?: number | null;
+  speedLimitBackward?: number | null;
+  conditionalLimits?: ConditionalSpeedLimit[];
+  /** Implicit zone the limit comes from, e.g. "PT:urban" */
+  zone?: string;
+  /** ISO 3166-1 code of the country the segment is in */
+  country?: string;
+  /** Inside a built-up area by the data's boundary polygons; missing when it has none */
+  urban?: boolean;
+  /** Where `speedLimit` came from; inferred from the tags when missing */
+  limitSource?: LimitSource;
+  /** 0-1, see LIMIT_SOURCE_CONFIDENCE */
+  limitConfidence?: number;
+  geometry: [number, number][];
+  /** OSM node ID of each geometry vertex; segments sharing a node are connected */
+  nodes?: number[];
+  properties?: Record<string, any>;
+  tags?: Record<string, string>;
+}
+
+// Relative to the order of a segment's geometry
+export type TravelDirection = 'forward' | 'backward';
+
+export interface SpeedLimitLookup {
+  speedLimit: number | null;
+  segment: SpeedLimitSegment | null;
+  /** km to the matched segment, or to the closest candidate when nothing matched */
+  distance: number;
+  /** Direction of travel along the matched segment, when it could be worked out */
+  direction: TravelDirection | null;
+  /** Condition of the conditional limit in force, e.g. "Mo-Fr 07:00-17:00" */
+  condition: string | null;
+  /** How sure the map matcher is about the segment, 0-1 */
+  confidence: number;
+  /** Where the limit came from, null when nothing matched */
+  limitSource: LimitSource | null;
+  /** How sure the data is about the limit, 0-1 */
+  limitConfidence: number;
+}
+
+/** Next limit change along the predicted path. */
+export interface UpcomingSpeedLimit {
+  speedLimit: number | null;
+  segment: SpeedLimitSegment;
+  /** km from the current position to where the new limit starts */
+  distance: number;
+}
@@ -0,0 +1,55 @@
+import { KMH_PER_KNOT, KMH_PER_MPH } from './maxspeed';
+
+/**
+ * Display units. Everything is computed in km/h and km; conversion only
+ * happens when a value is formatted for the driver.
+ */
+
+export type SpeedUnit = 'kmh' | 'mph' | 'knots';
+
+export const SPEED_UNITS: Record<SpeedUnit, { symbol: string; kmhPerUnit: number }> = {
+  kmh: { symbol: 'km/h', kmhPerUnit: 1 },
+  mph: { symbol: 'mph', kmhPerUnit: KMH_PER_MPH },
+  knots: { symbol: 'kn', kmhPerUnit: KMH_PER_KNOT },
+};
+
+const KM_PER_MILE = KMH_PER_MPH;
+const FEET_PER_KM = 3280.84;
+
+// Countries whose road signs are in mph, by BCP 47 region subtag
+const MPH_REGIONS = ['US', 'GB', 'LR', 'MM', 'PR', 'VI', 'GU', 'AS', 'MP', 'BS', 'BZ', 'KY', 'FK', 'GI', 'IM', 'JE', 'GG'];
+
+/** The unit drivers in the locale's region read limits in, e.g. mph for en-GB. */
+export function defaultSpeedUnit(localeTag: string): SpeedUnit {
+  const region = localeTag.split(/[-_]/).find((part, i) => i > 0 && /^[A-Za-z]{2}$/.test(part));
+  return region && MPH_REGIONS.includes(region.toUpperCase()) ? 'mph' : 'kmh';
+}
+
+export function convertSpeed(kmh: number, unit: SpeedUnit): number {
+  return kmh / SPEED_UNITS[unit].kmhPerUnit;
+}
+
+export function formatNumber(value: number, localeTag: string, fractionDigits = 0): string {
+  try {
+    return new Intl.NumberFormat(localeTag, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(value);
+  } catch {
+    return value.toFixed(fractionDigits); // Engines without Intl data for the locale
+  }
+}
+
+/**
+ * A short distance such as a look-ahead, in miles and feet alongside mph
+ * and in kilometres and metres otherwise.
+ */
+export function formatDistance(km: number, unit: SpeedUnit, localeTag: string): string {
+  if (unit === 'mph') {
+    const miles = km / KM_PER_MILE;
+    if (miles >= 0.1) return `${formatNumber(miles, localeTag, 1)} mi`;
+    return `${formatNumber(Math.round((km * FEET_PER_KM) / 50) * 50, localeTag)} ft`;
+  }
+  if (km >= 1) return `${formatNumber(km, localeTag, 1)} km`;
+  return `${formatNumber(Math.round((km * 1000) / 10) * 10, localeTag)} m`;
+}
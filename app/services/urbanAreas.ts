@@ -0,0 +1,59 @@
+import * as Turf from '@turf/turf';
+import { BBox, bboxOfCoordinates } from './spatialIndex';
+
+/**
+ * Built-up areas from settlement boundaries (OSM `place` areas and
+ * landuse=residential), used to tell urban from rural default limits on ways
+ * that aren't tagged with either. The fetch script marks each segment as
+ * inside or outside them; the app also checks the position itself, so the
+ * limit changes where a long untagged way crosses a town boundary.
+ */
+
+export interface UrbanArea {
+  id: string;
+  name?: string;
+  /** Tag it came from, e.g. "place=town" or "landuse=residential" */
+  kind: string;
+  /** GeoJSON MultiPolygon coordinates: polygons of [outer ring, ...holes] */
+  polygons: [number, number][][][];
+}
+
+export function urbanAreaBBox(area: UrbanArea): BBox {
+  return bboxOfCoordinates(area.polygons.flatMap((polygon) => polygon[0]));
+}
+
+// A polygon needs an outer ring of at least four positions, the last repeating the first
+function hasOuterRing(polygon: unknown): boolean {
+  return Array.isArray(polygon) && Array.isArray(polygon[0]) && polygon[0].length >= 4;
+}
+
+function isUrbanArea(value: unknown): value is UrbanArea {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'id' in value &&
+    typeof value.id === 'string' &&
+    'polygons' in value &&
+    Array.isArray(value.polygons) &&
+    value.polygons.length > 0 &&
+    value.polygons.every(hasOuterRing)
+  );
+}
+
+export function normalizeUrbanAreas(areas: unknown[]): UrbanArea[] {
+  return areas.filter(isUrbanArea);
+}
+
+/** Whether [lon, lat] is inside any of `areas`. */
+export function isInUrbanArea(areas: UrbanArea[], coordinate: [number, number]): boolean {
+  const point = Turf.point(coordinate);
+  return areas.some((area) => Turf.booleanPointInPolygon(point, Turf.multiPolygon(area.polygons)));
+}
+
+/** Whether a way is in a built-up area, judged by the middle of its length. */
+export function isUrbanWay(areas: UrbanArea[], geometry: [number, number][]): boolean {
+  if (areas.length === 0 || geometry.length < 2) return false;
+  const line = Turf.lineString(geometry);
+  const middle = Turf.along(line, Turf.length(line) / 2);
+  return isInUrbanArea(areas, middle.geometry.coordinates as [number, number]);
+}
@@ -0,0 +1,92 @@
+import { parseMaxspeed } from './maxspeed';
+import { SpeedLimitSegment, TravelDirection } from './types';
+
+export type VehicleClass = 'car' | 'car_trailer' | 'motorcycle' | 'bus' | 'truck' | 'truck_trailer';
+
+export interface VehicleProfile {
+  vehicleClass: VehicleClass;
+  label: string;
+  /** OSM access keys for this class, most specific first, as in `maxspeed:hgv` */
+  osmKeys: string[];
+}
+
+export const VEHICLE_PROFILES: Record<VehicleClass, VehicleProfile> = {
+  car: { vehicleClass: 'car', label: 'Car', osmKeys: [] },
+  car_trailer: { vehicleClass: 'car_trailer', label: 'Car + trailer', osmKeys: ['trailer'] },
+  motorcycle: { vehicleClass: 'motorcycle', label: 'Motorcycle', osmKeys: ['motorcycle'] },
+  bus: { vehicleClass: 'bus', label: 'Bus', osmKeys: ['bus', 'coach'] },
+  truck: { vehicleClass: 'truck', label: 'Truck', osmKeys: ['hgv', 'goods'] },
+  truck_trailer: { vehicleClass: 'truck_trailer', label: 'Truck + trailer', osmKeys: ['trailer', 'hgv', 'goods'] },
+};
+
+type RoadLimits = Record<string, number> & { default?: number };
+
+/**
+ * Statutory maximums by country, vehicle class and road type (km/h). They cap
+ * the posted limit; `default` covers road types that aren't listed. Classes
+ * without an entry just follow the posted limit.
+ */
+export const VEHICLE_SPEED_RULES: Record<string, Partial<Record<VehicleClass, RoadLimits>>> = {
+  MZ: {
+    car_trailer: { default: 80 },
+    bus: { motorway: 100, trunk: 90, default: 80 },
+    truck: { motorway: 80, trunk: 80, primary: 80, default: 70 },
+    truck_trailer: { default: 70 },
+  },
+  ZA: {
+    bus: { default: 100 },
+    truck: { default: 80 },
+    truck_trailer: { default: 80 },
+  },
+  PT: {
+    car_trailer: { motorway: 100, trunk: 80, default: 70 },
+    bus: { motorway: 100, trunk: 90, default: 80 },
+    truck: { motorway: 90, trunk: 80, default: 80 },
+    truck_trailer: { motorway: 80, trunk: 70, default: 70 },
+  },
+};
+
+// `maxspeed:hgv:forward` before `maxspeed:hgv`
+function taggedVehicleLimit(
+  tags: Record<string, string> | undefined,
+  keys: string[],
+  direction: TravelDirection | null
+): number | null | undefined {
+  if (!tags) return undefined;
+  for (const key of keys) {
+    const candidates = direction ? [`maxspeed:${key}:${direction}`, `maxspeed:${key}`] : [`maxspeed:${key}`];
+    for (const tag of candidates) {
+      const parsed = parseMaxspeed(tags[tag]);
+      if (parsed) return parsed.speedLimit;
+    }
+  }
+  return undefined;
+}
+
+// The stricter of two limits, null meaning no maximum
+function stricter(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  return b === null ? a : Math.min(a, b);
+}
+
+/**
+ * The limit for a vehicle class on a segment: an explicit `maxspeed:<class>`
+ * tag replaces the country's class rule. Either only ever lowers the general
+ * limit, so a conditional limit (e.g. a school zone) still applies to
+ * vehicles with a higher tagged maximum.
+ */
+export function vehicleSpeedLimit(
+  segment: SpeedLimitSegment,
+  generalLimit: number | null,
+  direction: TravelDirection | null,
+  vehicleClass: VehicleClass,
+  country: string
+): number | null {
+  const profile = VEHICLE_PROFILES[vehicleClass];
+  const tagged = taggedVehicleLimit(segment.tags, profile.osmKeys, direction);
+  if (tagged !== undefined) return stricter(generalLimit, tagged);
+
+  const rules = VEHICLE_SPEED_RULES[country]?.[vehicleClass];
+  const cap = rules?.[segment.type] ?? rules?.default;
+  return cap === undefined ? generalLimit : stricter(generalLimit, cap);
+}
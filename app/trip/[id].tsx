@@ -0,0 +1,261 @@
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { SpeedChart } from '@/components/SpeedChart';
+import { TripSummaryCard, formatDuration, formatTripDate } from '@/components/TripSummaryCard';
+import { useLocalization } from '@/hooks/useLocalization';
+import { TripExportFormat } from '../services/tripExport';
+import { shareTrip } from '../services/tripSharing';
+import { tripStore } from '../services/tripStore';
+import { OverspeedInterval, Trip, TripFix } from '../services/trips';
+import { UNNAMED_ROAD } from '../services/types';
+
+const EXPORT_BUTTONS: { format: TripExportFormat; label: string }[] = [
+  { format: 'gpx', label: 'GPX' },
+  { format: 'kml', label: 'KML' },
+  { format: 'geojson', label: 'GeoJSON' },
+];
+
+export default function TripDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t, locale, unitSymbol, formatSpeed, formatDistance } = useLocalization();
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [fixes, setFixes] = useState<TripFix[]>([]);
+  const [intervals, setIntervals] = useState<OverspeedInterval[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [exporting, setExporting] = useState<TripExportFormat | null>(null);
+
+  useEffect(() => {
+    const tripId = Number(id);
+    Promise.all([tripStore.getTrip(tripId), tripStore.getFixes(tripId), tripStore.getOverspeedIntervals(tripId)])
+      .then(([loadedTrip, loadedFixes, loadedIntervals]) => {
+        setTrip(loadedTrip);
+        setFixes(loadedFixes);
+        setIntervals(loadedIntervals);
+      })
+      .catch((error) => console.error(`❌ Error loading trip ${id}:`, error))
+      .finally(() => setIsLoading(false));
+  }, [id]);
+
+  const share = async (format: TripExportFormat) => {
+    if (!trip) return;
+    setExporting(format);
+    try {
+      await shareTrip(trip.id, format);
+    } catch (error) {
+      console.error(`❌ Error exporting trip ${trip.id}:`, error);
+      Alert.alert(t('exportFailed'), error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!trip) return;
+    Alert.alert(t('deleteTrip'), t('deleteTripMessage'), [
+      { text: t('cancel'), style: 'cancel' },
+      {
+        text: t('delete'),
+        style: 'destructive',
+        onPress: async () => {
+          await tripStore.deleteTrip(trip.id);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />;
+  }
+  if (!trip) {
+    return <Text style={styles.emptyText}>{t('tripNotFound')}</Text>;
+  }
+
+  const worst = trip.summary?.worstViolation;
+  const speed = (kmh: number) => `${formatSpeed(kmh)} ${unitSymbol}`;
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Stack.Screen options={{ title: formatTripDate(trip.startedAt, locale) }} />
+      <TripSummaryCard trip={trip} />
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('speedChart')}</Text>
+        <SpeedChart fixes={fixes} intervals={intervals} />
+        <View style={styles.legend}>
+          <Text style={[styles.legendItem, styles.speedLegend]}>— {t('legendSpeed')}</Text>
+          <Text style={[styles.legendItem, styles.limitLegend]}>- - {t('legendLimit')}</Text>
+          <Text style={[styles.legendItem, styles.violationLegend]}>■ {t('legendOverLimit')}</Text>
+        </View>
+      </View>
+
+      {worst && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('worstViolation')}</Text>
+          <Text style={styles.worstText}>
+            {t('violationSpeed', { speed: speed(worst.maxSpeed), limit: speed(worst.speedLimit) })}
+            {worst.road ? t('violationRoad', { road: worst.road }) : ''}
+          </Text>
+          <Text style={styles.worstDetail}>
+            {t('violationDetail', {
+              time: new Date(worst.start).toLocaleTimeString(locale),
+              duration: formatDuration(worst.end - worst.start),
+            })}
+          </Text>
+        </View>
+      )}
+
+      {trip.summary && trip.summary.roads.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('byRoad')}</Text>
+          {trip.summary.roads.map((road) => (
+            <View key={road.segmentId ?? road.road} style={styles.roadRow}>
+              <Text style={styles.roadName} numberOfLines={1}>
+                {road.road === UNNAMED_ROAD ? t('unnamedRoad') : road.road}
+              </Text>
+              <Text style={styles.roadValue}>{formatDistance(road.distance)}</Text>
+              <Text style={styles.roadValue}>{speed(road.maxSpeed)}</Text>
+              <Text style={[styles.roadValue, road.overspeedDuration > 0 && styles.warningValue]}>
+                {formatDuration(road.overspeedDuration)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('exportTrip')}</Text>
+        <View style={styles.exportRow}>
+          {EXPORT_BUTTONS.map(({ format, label }) => (
+            <TouchableOpacity
+              key={format}
+              style={styles.exportButton}
+              disabled={exporting !== null}
+              onPress={() => share(format)}>
+              {exporting === format ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.exportText}>{label}</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <TouchableOpacity style={styles.deleteButton} onPress={confirmDelete}>
+        <Text style={styles.deleteText}>{t('deleteTrip')}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#7f8c8d',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  section: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#dfe6e9',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#7f8c8d',
+    marginBottom: 10,
+  },
+  legend: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  legendItem: {
+    fontSize: 12,
+  },
+  speedLegend: {
+    color: '#3498db',
+  },
+  limitLegend: {
+    color: '#2c3e50',
+  },
+  violationLegend: {
+    color: '#e74c3c',
+  },
+  worstText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#e74c3c',
+  },
+  worstDetail: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  roadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#dfe6e9',
+  },
+  roadName: {
+    flex: 2,
+    fontSize: 14,
+    color: '#2c3e50',
+  },
+  roadValue: {
+    flex: 1,
+    fontSize: 13,
+    color: '#2c3e50',
+    textAlign: 'right',
+  },
+  warningValue: {
+    color: '#e74c3c',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  exportButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#3498db',
+  },
+  exportText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '600',
+  },
+  deleteButton: {
+    marginTop: 24,
+    alignSelf: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+  deleteText: {
+    fontSize: 15,
+    color: '#e74c3c',
+    fontWeight: '600',
+  },
+});
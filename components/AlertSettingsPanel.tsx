@@ -0,0 +1,135 @@
+import { StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+
+import { AlertConfig } from '@/app/services/overspeedAlert';
+import { Settings } from '@/app/services/settings';
+import { SPEED_UNITS, convertSpeed } from '@/app/services/units';
+import { useLocalization } from '@/hooks/useLocalization';
+
+type Props = {
+  settings: Settings;
+  onChange: (changes: Partial<Settings>) => void;
+};
+
+const TOLERANCE_STEP = 5;
+const MAX_TOLERANCE = 30;
+
+export function AlertSettingsPanel({ settings, onChange }: Props) {
+  const { t, speedUnit, unitSymbol } = useLocalization();
+  const { alert } = settings;
+  const setAlert = (changes: Partial<AlertConfig>) => onChange({ alert: { ...alert, ...changes } });
+  const absolute = alert.toleranceMode === 'absolute';
+  const kmhPerUnit = SPEED_UNITS[speedUnit].kmhPerUnit;
+  // Absolute tolerances are kept in km/h but shown and stepped in the chosen unit
+  const tolerance = absolute ? Math.round(convertSpeed(alert.tolerance, speedUnit)) : alert.tolerance;
+  const setTolerance = (value: number) => setAlert({ tolerance: absolute ? value * kmhPerUnit : value });
+  const unit = absolute ? ` ${unitSymbol}` : '%';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.label}>{t('tolerance')}</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            style={styles.stepButton}
+            onPress={() => setTolerance(Math.max(0, tolerance - TOLERANCE_STEP))}>
+            <Text style={styles.stepText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.value}>
+            +{tolerance}
+            {unit}
+          </Text>
+          <TouchableOpacity
+            style={styles.stepButton}
+            onPress={() => setTolerance(Math.min(MAX_TOLERANCE, tolerance + TOLERANCE_STEP))}>
+            <Text style={styles.stepText}>+</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.modeButton}
+            onPress={() =>
+              // The number on display stays the same, now in the other mode
+              setAlert(
+                absolute
+                  ? { toleranceMode: 'percent', tolerance }
+                  : { toleranceMode: 'absolute', tolerance: tolerance * kmhPerUnit }
+              )
+            }>
+            <Text style={styles.modeText}>{absolute ? unitSymbol : '%'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>{t('chime')}</Text>
+        <Switch value={settings.alertSound} onValueChange={(alertSound) => onChange({ alertSound })} />
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>{t('vibration')}</Text>
+        <Switch value={settings.alertHaptics} onValueChange={(alertHaptics) => onChange({ alertHaptics })} />
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>{t('alertWithScreenOff')}</Text>
+        <Switch
+          value={settings.backgroundTracking}
+          onValueChange={(backgroundTracking) => onChange({ backgroundTracking })}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#dfe6e9',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#2c3e50',
+    fontWeight: '500',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ecf0f1',
+  },
+  stepText: {
+    fontSize: 18,
+    color: '#2c3e50',
+  },
+  value: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#2c3e50',
+    fontWeight: '600',
+  },
+  modeButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#3498db',
+  },
+  modeText: {
+    fontSize: 12,
+    color: 'white',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,274 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { correctionStore } from '@/app/services/correctionStore';
+import { CorrectionExportFormat, createCorrection } from '@/app/services/corrections';
+import { shareCorrections } from '@/app/services/correctionSharing';
+import { refreshOverrides } from '@/app/services/deviceSpeedLimitService';
+import { SpeedLimitSegment } from '@/app/services/types';
+import { SPEED_UNITS, SpeedUnit } from '@/app/services/units';
+import { useLocalization } from '@/hooks/useLocalization';
+
+type Props = {
+  visible: boolean;
+  segment: SpeedLimitSegment | null;
+  /** Where the driver is, stored with the report */
+  position: { latitude: number; longitude: number } | null;
+  /** km/h currently shown */
+  currentLimit: number | null;
+  /** The current limit already comes from a correction */
+  overridden: boolean;
+  /** A correction was added or removed, so the limit in force may have changed */
+  onCorrected: () => void;
+  onClose: () => void;
+};
+
+// Limits offered in each unit, as posted on signs
+const LIMIT_OPTIONS: Record<SpeedUnit, number[]> = {
+  kmh: [20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120],
+  mph: [15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70],
+  knots: [5, 10, 15, 20, 25, 30, 40, 50, 60],
+};
+
+const EXPORT_BUTTONS: { format: CorrectionExportFormat; label: string }[] = [
+  { format: 'osc', label: 'OsmChange' },
+  { format: 'json', label: 'JSON' },
+];
+
+/** Lets the driver report the limit posted on the matched segment, and export queued reports. */
+export function CorrectionDialog({ visible, segment, position, currentLimit, overridden, onCorrected, onClose }: Props) {
+  const { t, speedUnit, unitSymbol, formatSpeed } = useLocalization();
+  const [selected, setSelected] = useState<number | null>(null);
+  const [queued, setQueued] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setSelected(null);
+    correctionStore
+      .countQueued()
+      .then(setQueued)
+      .catch((error) => console.error('❌ Error counting corrections:', error));
+  }, [visible]);
+
+  const submit = async () => {
+    if (!segment || !position || selected === null) return;
+    const speedLimit = selected * SPEED_UNITS[speedUnit].kmhPerUnit;
+    setBusy(true);
+    try {
+      await correctionStore.add(createCorrection(segment, speedLimit, currentLimit, position, Date.now()));
+      await refreshOverrides();
+      console.log(`✏️ Corrected ${segment.id} to ${speedLimit.toFixed(0)} km/h`);
+      onCorrected();
+      onClose();
+    } catch (error) {
+      console.error('❌ Error saving correction:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!segment) return;
+    setBusy(true);
+    try {
+      await correctionStore.deleteForSegment(String(segment.id));
+      await refreshOverrides();
+      onCorrected();
+      onClose();
+    } catch (error) {
+      console.error('❌ Error removing correction:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportQueued = async (format: CorrectionExportFormat) => {
+    setBusy(true);
+    try {
+      await shareCorrections(format);
+      setQueued(0);
+    } catch (error) {
+      console.error('❌ Error exporting corrections:', error);
+      Alert.alert(t('exportFailed'), error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const road = segment?.name || segment?.tags?.ref || t('unnamedRoad');
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>{t('reportLimit')}</Text>
+          <Text style={styles.hint}>{t('reportLimitHint', { road })}</Text>
+
+          <View style={styles.options}>
+            {LIMIT_OPTIONS[speedUnit].map((limit) => (
+              <TouchableOpacity
+                key={limit}
+                style={[styles.option, selected === limit && styles.selectedOption]}
+                onPress={() => setSelected(limit)}>
+                <Text style={[styles.optionText, selected === limit && styles.selectedOptionText]}>{limit}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.current}>
+            {formatSpeed(currentLimit)} → {selected ?? '--'} {unitSymbol}
+          </Text>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onClose}>
+              <Text style={styles.secondaryText}>{t('cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, (selected === null || busy) && styles.disabledButton]}
+              disabled={selected === null || busy}
+              onPress={submit}>
+              <Text style={styles.primaryText}>{t('submit')}</Text>
+            </TouchableOpacity>
+          </View>
+          {overridden && (
+            <TouchableOpacity style={styles.removeButton} disabled={busy} onPress={remove}>
+              <Text style={styles.removeText}>{t('removeCorrection')}</Text>
+            </TouchableOpacity>
+          )}
+
+          {queued > 0 && (
+            <View style={styles.exportSection}>
+              <Text style={styles.hint}>{t('queuedCorrections', { count: queued })}</Text>
+              <Text style={styles.exportTitle}>{t('exportCorrections')}</Text>
+              <View style={styles.buttons}>
+                {EXPORT_BUTTONS.map(({ format, label }) => (
+                  <TouchableOpacity
+                    key={format}
+                    style={[styles.primaryButton, busy && styles.disabledButton]}
+                    disabled={busy}
+                    onPress={() => exportQueued(format)}>
+                    <Text style={styles.primaryText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+          {busy && <ActivityIndicator style={styles.busy} color="#3498db" />}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  dialog: {
+    padding: 20,
+    borderRadius: 12,
+    backgroundColor: 'white',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#7f8c8d',
+    marginBottom: 12,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 4,
+    borderColor: '#e74c3c',
+    backgroundColor: 'white',
+  },
+  selectedOption: {
+    backgroundColor: '#e74c3c',
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+  },
+  selectedOptionText: {
+    color: 'white',
+  },
+  current: {
+    fontSize: 14,
+    color: '#2c3e50',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#3498db',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  primaryText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#ecf0f1',
+  },
+  secondaryText: {
+    fontSize: 14,
+    color: '#2c3e50',
+    fontWeight: '600',
+  },
+  removeButton: {
+    alignSelf: 'center',
+    paddingVertical: 10,
+    marginTop: 4,
+  },
+  removeText: {
+    fontSize: 14,
+    color: '#e74c3c',
+    fontWeight: '600',
+  },
+  exportSection: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#dfe6e9',
+  },
+  exportTitle: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#7f8c8d',
+    marginBottom: 8,
+  },
+  busy: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,110 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { LOCALE_NAMES, Locale } from '@/app/services/i18n';
+import { Settings } from '@/app/services/settings';
+import { SPEED_UNITS, SpeedUnit } from '@/app/services/units';
+import { useLocalization } from '@/hooks/useLocalization';
+
+type Props = {
+  settings: Settings;
+  onChange: (changes: Partial<Settings>) => void;
+};
+
+type Option<T> = { value: T | null; label: string };
+
+function Chips<T extends string>({
+  options,
+  value,
+  onSelect,
+}: {
+  options: Option<T>[];
+  value: T | null;
+  onSelect: (value: T | null) => void;
+}) {
+  return (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const selected = option.value === value;
+        return (
+          <TouchableOpacity
+            key={option.value ?? 'auto'}
+            style={[styles.chip, selected && styles.selectedChip]}
+            onPress={() => onSelect(option.value)}>
+            <Text style={[styles.chipText, selected && styles.selectedChipText]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+export function DisplaySettingsPanel({ settings, onChange }: Props) {
+  const { t } = useLocalization();
+  const auto = t('automatic');
+
+  const units: Option<SpeedUnit>[] = [
+    { value: null, label: auto },
+    ...(Object.keys(SPEED_UNITS) as SpeedUnit[]).map((unit) => ({ value: unit, label: SPEED_UNITS[unit].symbol })),
+  ];
+  const languages: Option<Locale>[] = [
+    { value: null, label: auto },
+    ...(Object.keys(LOCALE_NAMES) as Locale[]).map((locale) => ({ value: locale, label: LOCALE_NAMES[locale] })),
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.label}>{t('units')}</Text>
+        <Chips options={units} value={settings.speedUnit} onSelect={(speedUnit) => onChange({ speedUnit })} />
+      </View>
+      <View style={styles.row}>
+        <Text style={styles.label}>{t('language')}</Text>
+        <Chips options={languages} value={settings.language} onSelect={(language) => onChange({ language })} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#dfe6e9',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: '#2c3e50',
+    fontWeight: '500',
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#ecf0f1',
+  },
+  selectedChip: {
+    backgroundColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#2c3e50',
+    fontWeight: '600',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+});
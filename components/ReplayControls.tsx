@@ -0,0 +1,199 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, GestureResponderEvent, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import {
+  BUNDLED_TRACES,
+  ReplayLocationSource,
+  ReplayRate,
+  ReplayState,
+  TraceInfo,
+  loadBundledTrace,
+  loadTraceFile,
+} from '@/app/services/locationSources';
+
+type Props = {
+  source: ReplayLocationSource | null;
+  onSourceChange: (source: ReplayLocationSource | null) => void;
+};
+
+const RATES: ReplayRate[] = [1, 5, 10];
+
+function formatPosition(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function ReplayControls({ source, onSourceChange }: Props) {
+  const [traceName, setTraceName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [state, setState] = useState<ReplayState | null>(null);
+  const [barWidth, setBarWidth] = useState(0);
+
+  useEffect(() => {
+    if (!source) {
+      setState(null);
+      return;
+    }
+    setState(source.state);
+    return source.subscribe(setState);
+  }, [source]);
+
+  const load = async (name: string, loader: () => Promise<ReplayLocationSource>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      onSourceChange(await loader());
+      setTraceName(name);
+    } catch (loadError) {
+      console.error('❌ Error loading trace:', loadError);
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadBundled = (trace: TraceInfo) =>
+    load(trace.name, async () => new ReplayLocationSource(await loadBundledTrace(trace)));
+
+  const pickFile = async () => {
+    const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+    if (result.canceled) return;
+    const file = result.assets[0];
+    await load(file.name, async () => new ReplayLocationSource(await loadTraceFile(file.uri, file.name)));
+  };
+
+  const seek = (event: GestureResponderEvent) => {
+    if (!source || !state || barWidth === 0) return;
+    source.seek((event.nativeEvent.locationX / barWidth) * state.duration);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.traces}>
+        {BUNDLED_TRACES.map((trace) => (
+          <TouchableOpacity
+            key={trace.id}
+            style={[styles.chip, traceName === trace.name && styles.selectedChip]}
+            onPress={() => loadBundled(trace)}>
+            <Text style={[styles.chipText, traceName === trace.name && styles.selectedChipText]}>{trace.name}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.chip} onPress={pickFile}>
+          <Text style={styles.chipText}>Open GPX/NMEA…</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {isLoading && <ActivityIndicator color="#3498db" style={styles.loading} />}
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {source && state && (
+        <>
+          <View style={styles.playerRow}>
+            <TouchableOpacity
+              style={styles.playButton}
+              onPress={() => (state.playing ? source.pause() : source.play())}>
+              <Text style={styles.playText}>{state.playing ? 'Pause' : 'Play'}</Text>
+            </TouchableOpacity>
+            {RATES.map((rate) => (
+              <TouchableOpacity
+                key={rate}
+                style={[styles.chip, state.rate === rate && styles.selectedChip]}
+                onPress={() => source.setRate(rate)}>
+                <Text style={[styles.chipText, state.rate === rate && styles.selectedChipText]}>{rate}x</Text>
+              </TouchableOpacity>
+            ))}
+            <Text style={styles.positionText}>
+              {formatPosition(state.position)} / {formatPosition(state.duration)}
+            </Text>
+          </View>
+          <TouchableOpacity
+            activeOpacity={1}
+            style={styles.progressBar}
+            onLayout={(event) => setBarWidth(event.nativeEvent.layout.width)}
+            onPress={seek}>
+            <View
+              style={[styles.progressFill, { width: `${(state.position / Math.max(1, state.duration)) * 100}%` }]}
+            />
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    paddingVertical: 8,
+  },
+  traces: {
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#dfe6e9',
+  },
+  selectedChip: {
+    backgroundColor: '#3498db',
+    borderColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#2c3e50',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  loading: {
+    marginTop: 8,
+  },
+  errorText: {
+    marginTop: 8,
+    marginHorizontal: 20,
+    fontSize: 13,
+    color: '#e74c3c',
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+    paddingHorizontal: 20,
+  },
+  playButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: '#2c3e50',
+  },
+  playText: {
+    fontSize: 13,
+    color: 'white',
+    fontWeight: '600',
+  },
+  positionText: {
+    marginLeft: 'auto',
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  progressBar: {
+    height: 8,
+    marginTop: 10,
+    marginHorizontal: 20,
+    borderRadius: 4,
+    backgroundColor: '#dfe6e9',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#3498db',
+  },
+});
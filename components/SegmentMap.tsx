@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { LayoutChangeEvent, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Svg, { Circle, Polyline } from 'react-native-svg';
+
+import { speedLimitService } from '@/app/services/deviceSpeedLimitService';
+import {
+  LIMIT_COLORS,
+  NO_LIMIT_COLOR,
+  ScreenPoint,
+  limitColor,
+  projectSegments,
+  screenProjector,
+  viewportAround,
+  viewportBBox,
+} from '@/app/services/mapProjection';
+import { isEstimatedLimit } from '@/app/services/provenance';
+import { BBox, bboxContains } from '@/app/services/spatialIndex';
+import { SpeedLimitSegment } from '@/app/services/types';
+import { useLocalization } from '@/hooks/useLocalization';
+
+type Props = {
+  /** [lon, lat] of the current position */
+  position: [number, number];
+  matchedSegmentId?: string | number | null;
+  height?: number;
+};
+
+// km shown around the position at each zoom level
+const ZOOM_RADII_KM = [0.15, 0.3, 0.6, 1.2, 2.5];
+const DEFAULT_ZOOM = 2;
+
+function points(path: ScreenPoint[]) {
+  return path.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+}
+
+/**
+ * Loaded segments around the current position, coloured by limit, drawn from
+ * the local segment store so it works without a network connection.
+ */
+export function SegmentMap({ position, matchedSegmentId, height = 220 }: Props) {
+  const { t, formatSpeed } = useLocalization();
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [loaded, setLoaded] = useState<{ bbox: BBox; segments: SpeedLimitSegment[] } | null>(null);
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  const viewport = viewportAround(position, ZOOM_RADII_KM[zoom], width, height);
+  const needed = viewportBBox(viewport);
+  const stale = width > 0 && (!loaded || !bboxContains(loaded.bbox, needed));
+
+  // Loads twice the visible area, so small moves don't query the store again
+  useEffect(() => {
+    if (!stale) return;
+    let cancelled = false;
+    const wide = viewportBBox({ ...viewport, metersPerPixel: viewport.metersPerPixel * 2 });
+    speedLimitService
+      .getSegmentsInBBox(wide)
+      .then((segments) => !cancelled && setLoaded({ bbox: wide, segments }))
+      .catch((error) => console.error('❌ Error loading map segments:', error));
+    return () => {
+      cancelled = true;
+    };
+    // The viewport is recomputed every render; only rerun when the loaded area
+    // stops covering it, including after a load that the position outran
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stale, loaded]);
+
+  const projected = loaded && width > 0 ? projectSegments(loaded.segments, viewport) : [];
+  const matched = projected.filter(({ segment }) => segment.id === matchedSegmentId);
+  const [x, y] = screenProjector(viewport)(position);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.map, { height }]} onLayout={onLayout}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            {projected.map(({ segment, paths }) =>
+              paths.map((path, i) => (
+                <Polyline
+                  key={`${segment.id}-${i}`}
+                  points={points(path)}
+                  fill="none"
+                  stroke={limitColor(segment.speedLimit)}
+                  strokeWidth={3}
+                  strokeDasharray={isEstimatedLimit(segment.limitSource ?? null) ? '6,4' : undefined}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              ))
+            )}
+            {matched.map(({ segment, paths }) =>
+              paths.map((path, i) => [
+                <Polyline
+                  key={`outline-${segment.id}-${i}`}
+                  points={points(path)}
+                  fill="none"
+                  stroke="#2c3e50"
+                  strokeWidth={9}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />,
+                <Polyline
+                  key={`matched-${segment.id}-${i}`}
+                  points={points(path)}
+                  fill="none"
+                  stroke={limitColor(segment.speedLimit)}
+                  strokeWidth={5}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />,
+              ])
+            )}
+            <Circle cx={x} cy={y} r={7} fill="#3498db" stroke="white" strokeWidth={3} />
+          </Svg>
+        )}
+        {loaded && projected.length === 0 && <Text style={styles.emptyText}>{t('mapNoRoads')}</Text>}
+        <View style={styles.zoomButtons}>
+          <TouchableOpacity
+            style={styles.zoomButton}
+            disabled={zoom === 0}
+            onPress={() => setZoom(Math.max(0, zoom - 1))}>
+            <Text style={styles.zoomText}>+</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.zoomButton}
+            disabled={zoom === ZOOM_RADII_KM.length - 1}
+            onPress={() => setZoom(Math.min(ZOOM_RADII_KM.length - 1, zoom + 1))}>
+            <Text style={styles.zoomText}>−</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.legend}>
+        {LIMIT_COLORS.map((band, i) => (
+          <View key={band.color} style={styles.legendItem}>
+            <View style={[styles.swatch, { backgroundColor: band.color }]} />
+            <Text style={styles.legendText}>
+              {band.maxLimit === Infinity
+                ? `>${formatSpeed(LIMIT_COLORS[i - 1].maxLimit)}`
+                : `≤${formatSpeed(band.maxLimit)}`}
+            </Text>
+          </View>
+        ))}
+        <View style={styles.legendItem}>
+          <View style={[styles.swatch, { backgroundColor: NO_LIMIT_COLOR }]} />
+          <Text style={styles.legendText}>{t('noLimit')}</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <Text style={styles.legendText}>- - {t('estimated')}</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginBottom: 10,
+  },
+  map: {
+    width: '100%',
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#f5f5f5',
+    borderWidth: 1,
+    borderColor: '#dfe6e9',
+  },
+  emptyText: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    fontSize: 13,
+    color: '#7f8c8d',
+  },
+  zoomButtons: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    gap: 6,
+  },
+  zoomButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#dfe6e9',
+  },
+  zoomText: {
+    fontSize: 18,
+    color: '#2c3e50',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  swatch: {
+    width: 12,
+    height: 4,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 11,
+    color: '#7f8c8d',
+  },
+});
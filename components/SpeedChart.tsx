@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { LayoutChangeEvent, StyleSheet, View } from 'react-native';
+import Svg, { G, Line, Path, Rect, Text as SvgText } from 'react-native-svg';
+
+import { OverspeedInterval, TripFix } from '@/app/services/trips';
+
+type Props = {
+  fixes: TripFix[];
+  intervals: OverspeedInterval[];
+  height?: number;
+};
+
+const PADDING = { top: 10, right: 10, bottom: 24, left: 36 };
+// Breaks the lines where the recording has a gap
+const GAP_MS = 60000;
+// Long trips are thinned to about this many points per line
+const MAX_POINTS = 600;
+
+function thin(fixes: TripFix[]): TripFix[] {
+  if (fixes.length <= MAX_POINTS) return fixes;
+  const stride = Math.ceil(fixes.length / MAX_POINTS);
+  return fixes.filter((_, i) => i % stride === 0 || i === fixes.length - 1);
+}
+
+function niceMax(value: number) {
+  return Math.max(40, Math.ceil((value * 1.1) / 20) * 20);
+}
+
+/** Speed over time with the limit as a dashed step line and violations shaded. */
+export function SpeedChart({ fixes, intervals, height = 220 }: Props) {
+  const [width, setWidth] = useState(0);
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  if (fixes.length < 2) {
+    return <View style={[styles.container, { height }]} />;
+  }
+
+  const points = thin(fixes);
+  const start = fixes[0].time;
+  const end = fixes[fixes.length - 1].time;
+  const maxY = niceMax(points.reduce((max, f) => Math.max(max, f.speed ?? 0, f.speedLimit ?? 0), 0));
+  const plotWidth = Math.max(0, width - PADDING.left - PADDING.right);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (time: number) => PADDING.left + ((time - start) / Math.max(1, end - start)) * plotWidth;
+  const y = (speed: number) => PADDING.top + plotHeight - (speed / maxY) * plotHeight;
+
+  let speedPath = '';
+  let limitPath = '';
+  points.forEach((fix, i) => {
+    const previous: TripFix | undefined = points[i - 1];
+    const connected = previous !== undefined && fix.time - previous.time <= GAP_MS;
+    if (fix.speed !== null) {
+      speedPath += `${connected && previous.speed !== null ? 'L' : 'M'}${x(fix.time)},${y(fix.speed)} `;
+    }
+    if (fix.speedLimit !== null) {
+      // Steps: the limit holds until the next fix
+      limitPath +=
+        connected && previous.speedLimit !== null
+          ? `H${x(fix.time)} V${y(fix.speedLimit)} `
+          : `M${x(fix.time)},${y(fix.speedLimit)} `;
+    }
+  });
+
+  const gridSteps = maxY > 120 ? 40 : 20;
+  const gridLines = Array.from({ length: Math.floor(maxY / gridSteps) + 1 }, (_, i) => i * gridSteps);
+  const minutes = Math.round((end - start) / 60000);
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={onLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          <G>
+            {gridLines.map((speed) => (
+              <G key={speed}>
+                <Line x1={PADDING.left} x2={width - PADDING.right} y1={y(speed)} y2={y(speed)} stroke="#ecf0f1" />
+                <SvgText x={PADDING.left - 6} y={y(speed) + 4} fontSize={10} fill="#7f8c8d" textAnchor="end">
+                  {speed}
+                </SvgText>
+              </G>
+            ))}
+          </G>
+          {intervals.map((interval) => (
+            <Rect
+              key={interval.start}
+              x={x(interval.start)}
+              y={PADDING.top}
+              width={Math.max(2, x(interval.end) - x(interval.start))}
+              height={plotHeight}
+              fill="rgba(231, 76, 60, 0.2)"
+            />
+          ))}
+          <Path d={limitPath} stroke="#2c3e50" strokeWidth={2} strokeDasharray="6,4" fill="none" />
+          <Path d={speedPath} stroke="#3498db" strokeWidth={2} fill="none" />
+          <SvgText x={PADDING.left} y={height - 6} fontSize={10} fill="#7f8c8d">
+            0 min
+          </SvgText>
+          <SvgText x={width - PADDING.right} y={height - 6} fontSize={10} fill="#7f8c8d" textAnchor="end">
+            {minutes} min
+          </SvgText>
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
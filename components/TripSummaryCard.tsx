@@ -0,0 +1,103 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { Trip } from '@/app/services/trips';
+import { useLocalization } from '@/hooks/useLocalization';
+
+type Props = {
+  trip: Trip;
+};
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+export function formatTripDate(time: number, localeTag?: string): string {
+  return new Date(time).toLocaleString(localeTag, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function TripSummaryCard({ trip }: Props) {
+  const { t, locale, unitSymbol, formatSpeed, formatDistance } = useLocalization();
+  const { summary } = trip;
+  return (
+    <View style={styles.card}>
+      <Text style={styles.date}>{formatTripDate(trip.startedAt, locale)}</Text>
+      {summary ? (
+        <>
+          <View style={styles.statsRow}>
+            <Stat label={t('distance')} value={formatDistance(summary.distance)} />
+            <Stat label={t('duration')} value={formatDuration(summary.duration)} />
+            <Stat label={t('maxSpeed')} value={`${formatSpeed(summary.maxSpeed)} ${unitSymbol}`} />
+          </View>
+          <View style={styles.statsRow}>
+            <Stat label={t('averageSpeed')} value={`${formatSpeed(summary.averageSpeed)} ${unitSymbol}`} />
+            <Stat
+              label={t('timeOverLimit')}
+              value={formatDuration(summary.overspeedDuration)}
+              warning={summary.overspeedDuration > 0}
+            />
+            <Stat label={t('violations')} value={String(summary.overspeedCount)} warning={summary.overspeedCount > 0} />
+          </View>
+        </>
+      ) : (
+        <Text style={styles.recording}>{t('recording')}</Text>
+      )}
+    </View>
+  );
+}
+
+function Stat({ label, value, warning = false }: { label: string; value: string; warning?: boolean }) {
+  return (
+    <View style={styles.stat}>
+      <Text style={styles.statLabel}>{label}</Text>
+      <Text style={[styles.statValue, warning && styles.warningValue]}>{value}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#dfe6e9',
+  },
+  date: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  stat: {
+    flex: 1,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#7f8c8d',
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2c3e50',
+  },
+  warningValue: {
+    color: '#e74c3c',
+  },
+  recording: {
+    fontSize: 14,
+    color: '#27ae60',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,53 @@
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+import { VEHICLE_PROFILES, VehicleClass } from '@/app/services/vehicles';
+
+type Props = {
+  value: VehicleClass;
+  onChange: (vehicleClass: VehicleClass) => void;
+};
+
+export function VehicleClassPicker({ value, onChange }: Props) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.container}>
+      {Object.values(VEHICLE_PROFILES).map((profile) => {
+        const selected = profile.vehicleClass === value;
+        return (
+          <TouchableOpacity
+            key={profile.vehicleClass}
+            style={[styles.chip, selected && styles.selectedChip]}
+            onPress={() => onChange(profile.vehicleClass)}>
+            <Text style={[styles.chipText, selected && styles.selectedChipText]}>{profile.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#dfe6e9',
+  },
+  selectedChip: {
+    backgroundColor: '#3498db',
+    borderColor: '#3498db',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#2c3e50',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+});
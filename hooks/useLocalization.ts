@@ -0,0 +1,37 @@
+import { useMemo } from 'react';
+
+import { Locale, MessageKey, deviceLocaleTag, formattingTag, resolveLocale, translate } from '@/app/services/i18n';
+import { SPEED_UNITS, SpeedUnit, convertSpeed, defaultSpeedUnit, formatDistance } from '@/app/services/units';
+import { useSettings } from './useSettings';
+
+export interface Localization {
+  locale: Locale;
+  speedUnit: SpeedUnit;
+  /** e.g. "km/h" */
+  unitSymbol: string;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  /** A km/h value as a whole number in the chosen unit, "--" when unknown */
+  formatSpeed: (kmh: number | null) => string;
+  formatDistance: (km: number) => string;
+}
+
+/** Strings and unit formatting for the language and unit in the settings. */
+export function useLocalization(): Localization {
+  const [settings] = useSettings();
+  const { language, speedUnit: preferredUnit } = settings;
+
+  return useMemo(() => {
+    const deviceTag = deviceLocaleTag();
+    const locale = resolveLocale(language, deviceTag);
+    const tag = formattingTag(locale, deviceTag);
+    const speedUnit = preferredUnit ?? defaultSpeedUnit(deviceTag);
+    return {
+      locale,
+      speedUnit,
+      unitSymbol: SPEED_UNITS[speedUnit].symbol,
+      t: (key, params) => translate(locale, key, params),
+      formatSpeed: (kmh) => (kmh === null ? '--' : String(Math.round(convertSpeed(kmh, speedUnit)))),
+      formatDistance: (km) => formatDistance(km, speedUnit, tag),
+    };
+  }, [language, preferredUnit]);
+}
@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { DEFAULT_SETTINGS, Settings, getSettings, subscribeSettings, updateSettings } from '@/app/services/settings';
+
+export function useSettings(): [Settings, (changes: Partial<Settings>) => Promise<Settings>] {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    let mounted = true;
+    getSettings().then((loaded) => mounted && setSettings(loaded));
+    const unsubscribe = subscribeSettings(setSettings);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const update = useCallback((changes: Partial<Settings>) => updateSettings(changes), []);
+  return [settings, update];
+}
@@ -0,0 +1,9 @@
+// Learn more https://docs.expo.dev/guides/customizing-metro
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Recorded traces for debug replay are bundled as assets
+config.resolver.assetExts.push('gpx', 'nmea');
+
+module.exports = config;
@@ -0,0 +1,90 @@
+/**
+ * Benchmarks segment lookups against a synthetic national-scale dataset.
+ *
+ * Usage: npm run benchmark-spatial-index -- [segmentCount] [lookupCount] [budgetMs]
+ *
+ * Exits with a non-zero status when the p95 lookup time exceeds the budget.
+ */
+import * as turf from '@turf/turf';
+import { GridIndex, bboxAroundPoint, bboxOfCoordinates } from '../app/services/spatialIndex';
+
+const SEGMENT_COUNT = Number(process.argv[2]) || 500000;
+const LOOKUP_COUNT = Number(process.argv[3]) || 5000;
+const BUDGET_MS = Number(process.argv[4]) || 3;
+const MAX_DISTANCE_KM = 0.015; // Same as SpeedLimitService
+
+// Roughly the extent of Mozambique
+const EXTENT = { minLon: 30.2, minLat: -26.9, maxLon: 40.8, maxLat: -10.5 };
+
+// Small deterministic PRNG so runs are comparable
+let seed = 42;
+function random() {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+}
+
+function randomSegment(): [number, number][] {
+  let lon = EXTENT.minLon + random() * (EXTENT.maxLon - EXTENT.minLon);
+  let lat = EXTENT.minLat + random() * (EXTENT.maxLat - EXTENT.minLat);
+  const geometry: [number, number][] = [[lon, lat]];
+  const points = 2 + Math.floor(random() * 8);
+  for (let i = 1; i < points; i++) {
+    lon += (random() - 0.5) * 0.004;
+    lat += (random() - 0.5) * 0.004;
+    geometry.push([lon, lat]);
+  }
+  return geometry;
+}
+
+function percentile(sorted: number[], p: number) {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function run() {
+  console.log(`Generating ${SEGMENT_COUNT} synthetic segments...`);
+  const segments = Array.from({ length: SEGMENT_COUNT }, (_, id) => ({ id, geometry: randomSegment() }));
+
+  let started = performance.now();
+  const index = new GridIndex<(typeof segments)[number]>();
+  for (const segment of segments) {
+    index.insert(segment, bboxOfCoordinates(segment.geometry));
+  }
+  console.log(`Built index in ${(performance.now() - started).toFixed(0)}ms`);
+
+  // Half the lookups land on a segment vertex, half anywhere in the extent
+  const timings: number[] = [];
+  let matches = 0;
+  for (let i = 0; i < LOOKUP_COUNT; i++) {
+    const [lon, lat] = i % 2 === 0
+      ? segments[Math.floor(random() * segments.length)].geometry[0]
+      : [
+          EXTENT.minLon + random() * (EXTENT.maxLon - EXTENT.minLon),
+          EXTENT.minLat + random() * (EXTENT.maxLat - EXTENT.minLat),
+        ];
+
+    started = performance.now();
+    const point = turf.point([lon, lat]);
+    let closest = Infinity;
+    for (const candidate of index.search(bboxAroundPoint(lon, lat, MAX_DISTANCE_KM))) {
+      const distance = turf.pointToLineDistance(point, turf.lineString(candidate.geometry), { units: 'kilometers' });
+      if (distance < closest) closest = distance;
+    }
+    timings.push(performance.now() - started);
+    if (closest <= MAX_DISTANCE_KM) matches++;
+  }
+
+  timings.sort((a, b) => a - b);
+  const p50 = percentile(timings, 0.5);
+  const p95 = percentile(timings, 0.95);
+  const max = timings[timings.length - 1];
+  console.log(`${LOOKUP_COUNT} lookups, ${matches} matched`);
+  console.log(`p50 ${p50.toFixed(3)}ms, p95 ${p95.toFixed(3)}ms, max ${max.toFixed(3)}ms`);
+
+  if (p95 > BUDGET_MS) {
+    console.error(`p95 lookup time exceeds the ${BUDGET_MS}ms budget`);
+    process.exit(1);
+  }
+  console.log(`Within the ${BUDGET_MS}ms budget`);
+}
+
+run();
@@ -0,0 +1,77 @@
+/**
+ * Writes a region pack manifest for a directory of segment files, so the
+ * directory can be served as-is by any static file server.
+ *
+ * Usage: npm run build-region-manifest -- <packsDir>
+ *
+ * Each `<id>.json` written by fetch-speed-limits becomes a pack. A pack's version is bumped whenever its
+ * checksum differs from the one in the existing manifest.
+ */
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { RegionPack, RegionPackManifest } from '../app/services/regionPacks';
+import { normalizeSegments } from '../app/services/segmentStore';
+import { BBox, bboxOfCoordinates } from '../app/services/spatialIndex';
+
+const MANIFEST_FILE = 'manifest.json';
+
+function segmentsBBox(segments: { geometry: [number, number][] }[]): BBox {
+  const corners: [number, number][] = [];
+  for (const segment of segments) {
+    const [minLon, minLat, maxLon, maxLat] = bboxOfCoordinates(segment.geometry);
+    corners.push([minLon, minLat], [maxLon, maxLat]);
+  }
+  return bboxOfCoordinates(corners);
+}
+
+async function buildManifest(packsDir: string) {
+  const manifestPath = path.join(packsDir, MANIFEST_FILE);
+  const previous: RegionPackManifest = existsSync(manifestPath)
+    ? JSON.parse(await readFile(manifestPath, 'utf8'))
+    : { packs: [] };
+
+  const files = (await readdir(packsDir)).filter((file) => file.endsWith('.json') && file !== MANIFEST_FILE);
+  const packs: RegionPack[] = [];
+
+  for (const file of files.sort()) {
+    const contents = await readFile(path.join(packsDir, file));
+    const segments = normalizeSegments(JSON.parse(contents.toString('utf8')));
+    if (segments.length === 0) {
+      console.warn(`Skipping ${file}: no valid segments`);
+      continue;
+    }
+
+    const id = path.basename(file, '.json');
+    const sha256 = createHash('sha256').update(contents).digest('hex');
+    const existing = previous.packs.find((pack) => pack.id === id);
+    const version = !existing ? 1 : existing.sha256 === sha256 ? existing.version : existing.version + 1;
+
+    packs.push({
+      id,
+      name: existing?.name ?? id,
+      version,
+      sha256,
+      bbox: segmentsBBox(segments),
+      url: file,
+      size: contents.length,
+    });
+    console.log(`${id}: v${version}, ${segments.length} segments`);
+  }
+
+  const manifest: RegionPackManifest = { generatedAt: new Date().toISOString(), packs };
+  await writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+  console.log(`Manifest with ${packs.length} packs saved to ${manifestPath}`);
+}
+
+const packsDir = process.argv[2];
+if (!packsDir) {
+  console.error('Usage: build-region-manifest <packsDir>');
+  process.exit(1);
+}
+
+buildManifest(path.resolve(packsDir)).catch((error) => {
+  console.error('Error building manifest:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,421 @@
+/**
+ * Fetches road segments with speed limits from OpenStreetMap, one output
+ * file per region. Files hold `{ segments, urbanAreas }`: settlement
+ * boundaries are fetched too, so untagged ways get urban or rural defaults
+ * and the app can tell where a town starts.
+ *
+ * Usage: npm run fetch-speed-limits -- [options]
+ *
+ *   --country <ISO>       Country by ISO 3166-1 code (repeatable)
+ *   --area <name>         Administrative area by name, within --country if given
+ *   --admin-level <n>     admin_level of --area (default 4)
+ *   --bbox <w,s,e,n>      Bounding box region (repeatable)
+ *   --highway <list>      Comma-separated highway classes
+ *   --ref <ref>           Only ways with this ref, e.g. N1
+ *   --tile-size <deg>     Tile edge in degrees for Overpass requests (default 1)
+ *   --out <dir>           Output directory (default assets/data/regions)
+ *   --bundle              Also write all regions to assets/data/speedLimits.json,
+ *                         and its checksum to speedLimits.sha256.json next to it
+ *   --fixture <file>      Replay Overpass responses saved with --record instead of
+ *                         using the network
+ *   --record <file>       Save every Overpass response for use as a fixture
+ *
+ * Example: npm run fetch-speed-limits -- --country MZ --ref N1 --bundle
+ */
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import * as Turf from '@turf/turf';
+import { defaultSpeedLimit, roadContext } from '../app/services/defaultLimits';
+import { parseMaxspeedTags } from '../app/services/maxspeed';
+import { LIMIT_SOURCE_CONFIDENCE, LimitSource } from '../app/services/provenance';
+import { BBox, GridIndex, bboxOfCoordinates } from '../app/services/spatialIndex';
+import { SpeedLimitSegment, UNNAMED_ROAD } from '../app/services/types';
+import { UrbanArea, isInUrbanArea, isUrbanWay, urbanAreaBBox } from '../app/services/urbanAreas';
+import {
+  OverpassClient,
+  OverpassElement,
+  OverpassNode,
+  OverpassRecording,
+  OverpassResponse,
+  OverpassWay,
+  httpOverpassClient,
+  overpassBBox,
+  recordingOverpassClient,
+  replayingOverpassClient,
+  tileBBox,
+  withRetry,
+} from './overpass';
+
+const DEFAULT_OUTPUT_DIR = path.join(__dirname, '../assets/data/regions');
+const BUNDLE_FILE = path.join(__dirname, '../assets/data/speedLimits.json');
+// Read by the app to tell whether its SQLite copy of the bundle is current
+const BUNDLE_CHECKSUM_FILE = path.join(__dirname, '../assets/data/speedLimits.sha256.json');
+
+const DEFAULT_HIGHWAYS = [
+  'motorway', 'trunk', 'primary', 'secondary', 'tertiary',
+  'motorway_link', 'trunk_link', 'primary_link', 'secondary_link', 'tertiary_link',
+];
+
+// Settlements whose extent counts as a built-up area
+const URBAN_PLACES = ['city', 'town', 'village', 'hamlet', 'suburb'];
+
+// km drawn around settlements that are only mapped as a point
+const PLACE_RADII_KM: Record<string, number> = { city: 5, town: 2, village: 1, hamlet: 0.3, suburb: 1 };
+
+export interface Region {
+  id: string;
+  /** ISO 3166-1 code, recorded on every segment when known */
+  country?: string;
+  /** Overpass statements that leave the region's boundary relation in `.boundary`. */
+  boundary?: string;
+  bbox?: BBox;
+}
+
+export interface FetchOptions {
+  highways: string[];
+  ref?: string;
+  tileSize: number;
+}
+
+export type ExportedSegment = SpeedLimitSegment & {
+  id: number;
+  tags: Record<string, string>;
+};
+
+export interface ExportedRegion {
+  segments: ExportedSegment[];
+  urbanAreas: UrbanArea[];
+}
+
+function escapeTag(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+export function countryRegion(iso: string): Region {
+  const code = iso.toUpperCase();
+  return {
+    id: code,
+    country: code,
+    boundary: `rel["ISO3166-1"="${escapeTag(code)}"]["admin_level"="2"]->.boundary;`,
+  };
+}
+
+export function areaRegion(name: string, adminLevel: number, country?: string): Region {
+  const area = `rel["boundary"="administrative"]["admin_level"="${adminLevel}"]["name"="${escapeTag(name)}"]`;
+  const slug = name.normalize('NFD').replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  if (!country) {
+    return { id: slug, boundary: `${area}->.boundary;` };
+  }
+  return {
+    id: `${country.toUpperCase()}-${slug}`,
+    country: country.toUpperCase(),
+    boundary: `${countryRegion(country).boundary}\n.boundary map_to_area->.country;\n${area}(area.country)->.boundary;`,
+  };
+}
+
+export function bboxRegion(value: string): Region {
+  const bbox = value.split(',').map(Number);
+  if (bbox.length !== 4 || bbox.some(isNaN)) {
+    throw new Error(`Invalid bbox "${value}", expected west,south,east,north`);
+  }
+  return { id: `bbox_${bbox.join('_')}`, bbox: bbox as BBox };
+}
+
+async function regionBounds(client: OverpassClient, region: Region): Promise<BBox> {
+  if (region.bbox) return region.bbox;
+
+  const { elements } = await client(`[out:json][timeout:60];\n${region.boundary}\n.boundary out ids bb;`);
+  const bounds = elements.find((element) => element.type === 'relation' && element.bounds);
+  if (!bounds || bounds.type !== 'relation' || !bounds.bounds) {
+    throw new Error(`No boundary found for region ${region.id}`);
+  }
+  const { minlon, minlat, maxlon, maxlat } = bounds.bounds;
+  return [minlon, minlat, maxlon, maxlat];
+}
+
+export function roadsQuery(region: Region, tile: BBox, options: FetchOptions): string {
+  const filters = [`["highway"~"^(${options.highways.map(escapeTag).join('|')})$"]`];
+  if (options.ref) filters.push(`["ref"="${escapeTag(options.ref)}"]`);
+  const areaFilter = region.boundary ? '(area.region)' : '';
+
+  return `[out:json][timeout:180];
+${region.boundary ? `${region.boundary}\n.boundary map_to_area->.region;` : ''}
+way${filters.join('')}${areaFilter}(${overpassBBox(tile)})->.roads;
+.roads out body;
+node(w.roads);
+out skel qt;`;
+}
+
+export function urbanAreasQuery(region: Region, tile: BBox): string {
+  const places = `["place"~"^(${URBAN_PLACES.join('|')})$"]`;
+  const filter = `${region.boundary ? '(area.region)' : ''}(${overpassBBox(tile)})`;
+
+  return `[out:json][timeout:180];
+${region.boundary ? `${region.boundary}\n.boundary map_to_area->.region;` : ''}
+(
+  way${places}${filter};
+  way["landuse"="residential"]${filter};
+  relation${places}${filter};
+  node${places}${filter};
+)->.areas;
+.areas out body;
+way(r.areas)->.members;
+.members out body;
+(node(w.areas); node(w.members););
+out skel qt;`;
+}
+
+/** Queries a region tile by tile and merges the results, dropping duplicates. */
+export async function fetchRegion(client: OverpassClient, region: Region, options: FetchOptions): Promise<OverpassResponse> {
+  const tiles = tileBBox(await regionBounds(client, region), options.tileSize);
+  const elements = new Map<string, OverpassElement>();
+
+  for (let i = 0; i < tiles.length; i++) {
+    const responses = [
+      await client(roadsQuery(region, tiles[i], options)),
+      await client(urbanAreasQuery(region, tiles[i])),
+    ];
+    for (const element of responses.flatMap((response) => response.elements)) {
+      // Nodes come back without tags as way members; keep the tagged copy
+      const key = `${element.type}/${element.id}`;
+      if (!elements.get(key)?.tags) elements.set(key, element);
+    }
+    const count = responses.reduce((total, response) => total + response.elements.length, 0);
+    console.log(`[${region.id}] tile ${i + 1}/${tiles.length}: ${count} elements`);
+  }
+  return { elements: [...elements.values()] };
+}
+
+function urbanKind(tags: Record<string, string> | undefined): string | null {
+  if (tags?.place && URBAN_PLACES.includes(tags.place)) return `place=${tags.place}`;
+  if (tags?.landuse === 'residential') return 'landuse=residential';
+  return null;
+}
+
+/**
+ * Built-up areas from settlement boundaries and residential landuse.
+ * Multipolygon rings split across several ways are skipped; settlements
+ * mapped only as a point get a circle sized by their place type.
+ */
+export function buildUrbanAreas(elements: OverpassElement[]): UrbanArea[] {
+  const nodes = new Map<number, OverpassNode>();
+  const ways = new Map<number, OverpassWay>();
+  for (const element of elements) {
+    if (element.type === 'node') nodes.set(element.id, element);
+    if (element.type === 'way') ways.set(element.id, element);
+  }
+
+  const ring = (way: OverpassWay | undefined): [number, number][] | null => {
+    if (!way || way.nodes.length < 4 || way.nodes[0] !== way.nodes[way.nodes.length - 1]) return null;
+    const coords = way.nodes.map((id) => nodes.get(id));
+    return coords.every(Boolean) ? coords.map((node) => [node!.lon, node!.lat]) : null;
+  };
+
+  const areas: UrbanArea[] = [];
+  for (const element of elements) {
+    const kind = urbanKind(element.tags);
+    if (!kind || element.type === 'node') continue;
+    const name = element.tags?.name;
+
+    if (element.type === 'way') {
+      const outer = ring(element);
+      if (outer) areas.push({ id: `way/${element.id}`, name, kind, polygons: [[outer]] });
+      continue;
+    }
+
+    const members = element.members ?? [];
+    const polygons = members
+      .filter((member) => member.type === 'way' && member.role !== 'inner')
+      .map((member) => ring(ways.get(member.ref)))
+      .filter((outer): outer is [number, number][] => outer !== null)
+      .map((outer) => [outer]);
+    if (polygons.length === 0) continue;
+    for (const member of members) {
+      const inner = member.type === 'way' && member.role === 'inner' ? ring(ways.get(member.ref)) : null;
+      if (!inner) continue;
+      polygons.find(([outer]) => Turf.booleanPointInPolygon(inner[0], Turf.polygon([outer])))?.push(inner);
+    }
+    areas.push({ id: `relation/${element.id}`, name, kind, polygons });
+  }
+
+  const index = new GridIndex<UrbanArea>(0.1);
+  for (const area of areas) index.insert(area, urbanAreaBBox(area));
+  for (const node of nodes.values()) {
+    const kind = urbanKind(node.tags);
+    if (!kind?.startsWith('place=')) continue;
+    const point: [number, number] = [node.lon, node.lat];
+    if (isInUrbanArea(index.search([...point, ...point]), point)) continue;
+    const circle = Turf.circle(point, PLACE_RADII_KM[node.tags!.place], { steps: 24, units: 'kilometers' });
+    areas.push({
+      id: `node/${node.id}`,
+      name: node.tags?.name,
+      kind,
+      polygons: [circle.geometry.coordinates as [number, number][][]],
+    });
+  }
+  return areas;
+}
+
+/**
+ * Flattens ways into segments with full geometry and a speed limit. With
+ * `urbanAreas`, every segment records whether it is in one.
+ */
+export function buildSegments(
+  elements: OverpassElement[],
+  country?: string,
+  urbanAreas: UrbanArea[] = []
+): ExportedSegment[] {
+  const areaIndex = new GridIndex<UrbanArea>(0.1);
+  for (const area of urbanAreas) areaIndex.insert(area, urbanAreaBBox(area));
+
+  // Create a map of nodes with their coordinates for quick lookup
+  const nodes = new Map<number, [number, number]>();
+  for (const element of elements) {
+    if (element.type === 'node') {
+      nodes.set(element.id, [element.lon, element.lat]);
+    }
+  }
+
+  const segments: ExportedSegment[] = [];
+  for (const element of elements) {
+    if (element.type !== 'way' || !element.nodes || element.nodes.length < 2) continue;
+    const way = element;
+    const tags = way.tags || {};
+
+    // null is a real value here (maxspeed=none); only untagged ways get the
+    // statutory default for their country and context
+    const { speedLimit: tagged, ...limits } = parseMaxspeedTags(tags);
+    if (tagged === undefined && !tags.highway) continue;
+
+    // Node IDs are kept alongside the coordinates so the app can tell which
+    // segments connect
+    const nodeIds = way.nodes.filter((nodeId) => nodes.has(nodeId)); // Filter out any missing nodes
+    const geometry = nodeIds.map((nodeId) => nodes.get(nodeId)!);
+    if (geometry.length < 2) continue;
+
+    const urban =
+      urbanAreas.length > 0 ? isUrbanWay(areaIndex.search(bboxOfCoordinates(geometry)), geometry) : undefined;
+    let speedLimit = tagged;
+    let limitSource: LimitSource = limits.zone ? 'zone' : 'tag';
+    if (speedLimit === undefined) {
+      const statutory = defaultSpeedLimit(roadContext(tags, urban), country);
+      speedLimit = statutory.speedLimit;
+      if (statutory.zone) limits.zone = statutory.zone;
+      limitSource = 'class-default';
+    }
+
+    segments.push({
+      id: way.id,
+      type: tags.highway,
+      name: tags.name || UNNAMED_ROAD,
+      speedLimit,
+      ...limits,
+      ...(country && { country }),
+      ...(urban !== undefined && { urban }),
+      limitSource,
+      limitConfidence: LIMIT_SOURCE_CONFIDENCE[limitSource],
+      tags,
+      geometry,
+      nodes: nodeIds,
+    });
+  }
+  return segments;
+}
+
+function parseCli() {
+  const { values } = parseArgs({
+    options: {
+      country: { type: 'string', multiple: true },
+      area: { type: 'string' },
+      'admin-level': { type: 'string', default: '4' },
+      bbox: { type: 'string', multiple: true },
+      highway: { type: 'string' },
+      ref: { type: 'string' },
+      'tile-size': { type: 'string', default: '1' },
+      out: { type: 'string', default: DEFAULT_OUTPUT_DIR },
+      bundle: { type: 'boolean', default: false },
+      fixture: { type: 'string' },
+      record: { type: 'string' },
+    },
+  });
+
+  const regions: Region[] = [];
+  if (values.area) {
+    if ((values.country?.length ?? 0) > 1) throw new Error('--area takes at most one --country');
+    regions.push(areaRegion(values.area, Number(values['admin-level']), values.country?.[0]));
+  } else {
+    regions.push(...(values.country ?? []).map(countryRegion));
+  }
+  regions.push(...(values.bbox ?? []).map(bboxRegion));
+
+  if (regions.length === 0) {
+    throw new Error('Specify at least one --country, --area or --bbox');
+  }
+
+  const tileSize = Number(values['tile-size']);
+  if (!(tileSize > 0)) throw new Error('--tile-size must be a positive number of degrees');
+
+  return {
+    regions,
+    options: {
+      highways: values.highway ? values.highway.split(',').map((h) => h.trim()) : DEFAULT_HIGHWAYS,
+      ref: values.ref,
+      tileSize,
+    } as FetchOptions,
+    outDir: path.resolve(values.out),
+    bundle: values.bundle,
+    fixture: values.fixture,
+    record: values.record,
+  };
+}
+
+async function main() {
+  const { regions, options, outDir, bundle, fixture, record } = parseCli();
+  const recording: OverpassRecording = fixture ? JSON.parse(await readFile(fixture, 'utf8')) : {};
+  const source = fixture ? replayingOverpassClient(recording) : httpOverpassClient();
+  const client = withRetry(record ? recordingOverpassClient(source, recording) : source);
+  const bundled: ExportedRegion = { segments: [], urbanAreas: [] };
+  await mkdir(outDir, { recursive: true });
+
+  for (const region of regions) {
+    console.log(`Fetching speed limit data for ${region.id}...`);
+    const response = await fetchRegion(client, region, options);
+    console.log(`Found ${response.elements.length} total elements`);
+
+    const urbanAreas = buildUrbanAreas(response.elements);
+    const segments = buildSegments(response.elements, region.country, urbanAreas);
+    console.log(`Processed ${segments.length} road segments with valid speed limits`);
+    console.log(`Found ${urbanAreas.length} built-up areas`);
+
+    const outputFile = path.join(outDir, `${region.id}.json`);
+    const exported: ExportedRegion = { segments, urbanAreas };
+    await writeFile(outputFile, JSON.stringify(exported, null, 2));
+    console.log(`Speed limit data saved to ${outputFile}`);
+    bundled.segments.push(...segments);
+    bundled.urbanAreas.push(...urbanAreas);
+  }
+
+  if (record) {
+    await writeFile(record, JSON.stringify(recording, null, 2));
+    console.log(`Recorded ${Object.keys(recording).length} Overpass responses to ${record}`);
+  }
+
+  if (bundle) {
+    await mkdir(path.dirname(BUNDLE_FILE), { recursive: true });
+    const contents = JSON.stringify(bundled, null, 2);
+    await writeFile(BUNDLE_FILE, contents);
+    await writeFile(BUNDLE_CHECKSUM_FILE, JSON.stringify({ sha256: createHash('sha256').update(contents).digest('hex') }));
+    console.log(`Bundled ${bundled.segments.length} segments into ${BUNDLE_FILE}`);
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => console.log('Speed limit processing complete!'))
+    .catch((error) => {
+      console.error('Error fetching or processing speed limit data:', error.message);
+      process.exit(1);
+    });
+}
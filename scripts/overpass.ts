@@ -0,0 +1,127 @@
+import { BBox } from '../app/services/spatialIndex';
+
+export const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+
+export interface OverpassNode {
+  type: 'node';
+  id: number;
+  lat: number;
+  lon: number;
+  tags?: Record<string, string>;
+}
+
+export interface OverpassWay {
+  type: 'way';
+  id: number;
+  nodes: number[];
+  tags?: Record<string, string>;
+}
+
+export interface OverpassRelation {
+  type: 'relation';
+  id: number;
+  tags?: Record<string, string>;
+  members?: { type: 'node' | 'way' | 'relation'; ref: number; role: string }[];
+  bounds?: { minlat: number; minlon: number; maxlat: number; maxlon: number };
+}
+
+export type OverpassElement = OverpassNode | OverpassWay | OverpassRelation;
+
+export interface OverpassResponse {
+  elements: OverpassElement[];
+}
+
+/** Runs one Overpass QL query. Swappable so tooling can replay recorded responses. */
+export type OverpassClient = (query: string) => Promise<OverpassResponse>;
+
+export class OverpassError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'OverpassError';
+  }
+}
+
+/** Responses by the exact query text, as saved by `--record` and replayed by `--fixture`. */
+export type OverpassRecording = Record<string, OverpassResponse>;
+
+/** Passes queries on to `client` and keeps each response in `recording`. */
+export function recordingOverpassClient(client: OverpassClient, recording: OverpassRecording): OverpassClient {
+  return async (query) => {
+    const response = await client(query);
+    recording[query] = response;
+    return response;
+  };
+}
+
+/** Answers queries from a recording, so fetches can run offline. */
+export function replayingOverpassClient(recording: OverpassRecording): OverpassClient {
+  return async (query) => {
+    const response = recording[query];
+    if (!response) {
+      throw new OverpassError(`No recorded response for query:\n${query}`);
+    }
+    return response;
+  };
+}
+
+// Overpass answers 429 when rate limited and 504 when the server is busy
+const RETRYABLE_STATUS = new Set([429, 502, 503, 504]);
+
+export function httpOverpassClient(url = OVERPASS_URL): OverpassClient {
+  return async (query) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ data: query }).toString(),
+    });
+    if (!response.ok) {
+      throw new OverpassError(`Overpass responded with HTTP ${response.status}`, response.status);
+    }
+    return (await response.json()) as OverpassResponse;
+  };
+}
+
+interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+}
+
+/** Retries network failures and busy responses with exponential backoff and jitter. */
+export function withRetry(client: OverpassClient, { retries = 4, baseDelayMs = 2000 }: RetryOptions = {}): OverpassClient {
+  return async (query) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await client(query);
+      } catch (error) {
+        const retryable = !(error instanceof OverpassError) || RETRYABLE_STATUS.has(error.status ?? 0);
+        if (!retryable || attempt >= retries) throw error;
+
+        const delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+        console.warn(`Overpass request failed (${(error as Error).message}), retrying in ${Math.round(delay / 1000)}s...`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  };
+}
+
+/** Splits a bbox into tiles of at most `size` degrees on each side. */
+export function tileBBox(bbox: BBox, size: number): BBox[] {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  // Counted up front: adding up `size` drifts and can leave a sliver of a tile at the edge
+  const rows = Math.ceil((maxLat - minLat) / size - 1e-9);
+  const columns = Math.ceil((maxLon - minLon) / size - 1e-9);
+  const tiles: BBox[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const lon = minLon + column * size;
+      const lat = minLat + row * size;
+      tiles.push([lon, lat, Math.min(lon + size, maxLon), Math.min(lat + size, maxLat)]);
+    }
+  }
+  return tiles;
+}
+
+// Overpass expects (south, west, north, east)
+export function overpassBBox([minLon, minLat, maxLon, maxLat]: BBox): string {
+  return `${minLat},${minLon},${maxLat},${maxLon}`;
+}
@@ -0,0 +1,230 @@
+/**
+ * Replays labelled GPS traces through SpeedLimitService against a segment
+ * dataset and reports how well the returned limits match the labels.
+ *
+ * Usage: npm run regress-speed-limits -- [options]
+ *
+ *   --segments <file>     Segment dataset, as written by fetch-speed-limits
+ *   --trace <file>        Labelled trace (repeatable)
+ *   --window <n>          Map matcher window; 1 snaps each fix to the nearest segment
+ *   --vehicle <class>     Vehicle class the limits apply to (default car)
+ *   --min-accuracy <pct>  Fail below this share of correct fixes (default 95)
+ *   --max-flips <n>       Fail above this many spurious limit changes per trace (default 2,
+ *                         as a single mismatched fix flips away and back)
+ *
+ * A labelled trace is JSON: `{ "name": "...", "fixes": [...] }`, each fix
+ * having `time` (ISO 8601 or ms), `latitude`, `longitude`, optionally
+ * `speed` (m/s), `heading` and `accuracy` (m), and `expectedLimit` in km/h,
+ * or null where no limit should be reported.
+ *
+ * Example: npm run regress-speed-limits -- \
+ *   --segments scripts/fixtures/regression/n1-village-segments.json \
+ *   --trace scripts/fixtures/regression/n1-village-northbound.trace.json
+ */
+import type { LocationObject } from 'expo-location';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { HmmMapMatcher } from '../app/services/mapMatcher';
+import { MemorySegmentStore } from '../app/services/segmentStore';
+import { SpeedLimitService } from '../app/services/speedLimitService';
+import { VEHICLE_PROFILES, VehicleClass } from '../app/services/vehicles';
+
+interface LabelledFix {
+  time: string | number;
+  latitude: number;
+  longitude: number;
+  speed?: number | null;
+  heading?: number | null;
+  accuracy?: number | null;
+  expectedLimit: number | null;
+}
+
+interface LabelledTrace {
+  name?: string;
+  fixes: LabelledFix[];
+}
+
+interface TraceReport {
+  name: string;
+  fixes: number;
+  correct: number;
+  /** Changes of the returned limit where the label stays the same */
+  flips: number;
+  /** s from each labelled limit change until the returned limit follows it */
+  changeLags: number[];
+  /** Labelled changes the returned limit never followed */
+  missedChanges: number;
+  /** ms per lookup */
+  lookupTimes: number[];
+}
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return NaN;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function fixTime(fix: LabelledFix): number {
+  return typeof fix.time === 'number' ? fix.time : Date.parse(fix.time);
+}
+
+function toLocation(fix: LabelledFix): LocationObject {
+  return {
+    coords: {
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      altitude: null,
+      accuracy: fix.accuracy ?? null,
+      altitudeAccuracy: null,
+      heading: fix.heading ?? null,
+      speed: fix.speed ?? null,
+    },
+    timestamp: fixTime(fix),
+  };
+}
+
+async function loadTrace(file: string): Promise<LabelledTrace> {
+  const trace: LabelledTrace = JSON.parse(await readFile(file, 'utf8'));
+  if (!Array.isArray(trace?.fixes) || trace.fixes.length === 0) {
+    throw new Error(`${file} has no fixes`);
+  }
+  trace.fixes.forEach((fix, i) => {
+    if (!Number.isFinite(fixTime(fix)) || fix.expectedLimit === undefined) {
+      throw new Error(`${file}: fix ${i} needs a time and an expectedLimit`);
+    }
+  });
+  return { name: trace.name ?? path.basename(file), fixes: trace.fixes };
+}
+
+async function runTrace(service: SpeedLimitService, trace: LabelledTrace): Promise<TraceReport> {
+  const report: TraceReport = {
+    name: trace.name!,
+    fixes: trace.fixes.length,
+    correct: 0,
+    flips: 0,
+    changeLags: [],
+    missedChanges: 0,
+    lookupTimes: [],
+  };
+  // Labelled change still waiting for the returned limit to follow, with its time
+  let pendingChange: number | null = null;
+  let previousExpected: number | null | undefined;
+  let previousActual: number | null | undefined;
+
+  service.resetMatching();
+  for (const fix of trace.fixes) {
+    const started = performance.now();
+    const { speedLimit } = await service.getSpeedLimitAtLocationWithInfo(toLocation(fix));
+    report.lookupTimes.push(performance.now() - started);
+
+    const time = fixTime(fix);
+    const expectedChanged = previousExpected !== undefined && fix.expectedLimit !== previousExpected;
+    const actualChanged = previousActual !== undefined && speedLimit !== previousActual;
+
+    if (expectedChanged) {
+      if (pendingChange !== null) report.missedChanges++;
+      pendingChange = time;
+    } else if (actualChanged && pendingChange === null) {
+      report.flips++;
+    }
+    if (speedLimit === fix.expectedLimit) {
+      report.correct++;
+      if (pendingChange !== null) {
+        report.changeLags.push((time - pendingChange) / 1000);
+        pendingChange = null;
+      }
+    }
+
+    previousExpected = fix.expectedLimit;
+    previousActual = speedLimit;
+  }
+  if (pendingChange !== null) report.missedChanges++;
+  return report;
+}
+
+function printReport(report: TraceReport) {
+  const lookups = report.lookupTimes.slice().sort((a, b) => a - b);
+  const lags = report.changeLags;
+  const meanLag = lags.length > 0 ? lags.reduce((sum, lag) => sum + lag, 0) / lags.length : 0;
+  console.log(`\n${report.name}`);
+  console.log(`  accuracy  ${((report.correct / report.fixes) * 100).toFixed(1)}% (${report.correct}/${report.fixes} fixes)`);
+  console.log(`  flips     ${report.flips}`);
+  console.log(
+    `  changes   ${lags.length} followed, mean lag ${meanLag.toFixed(1)}s, max ${Math.max(0, ...lags).toFixed(1)}s` +
+      `, ${report.missedChanges} missed`
+  );
+  console.log(
+    `  lookups   p50 ${percentile(lookups, 0.5).toFixed(3)}ms, p95 ${percentile(lookups, 0.95).toFixed(3)}ms` +
+      `, max ${lookups[lookups.length - 1].toFixed(3)}ms`
+  );
+}
+
+function parseCli() {
+  const { values } = parseArgs({
+    options: {
+      segments: { type: 'string' },
+      trace: { type: 'string', multiple: true },
+      window: { type: 'string' },
+      vehicle: { type: 'string', default: 'car' },
+      'min-accuracy': { type: 'string', default: '95' },
+      'max-flips': { type: 'string', default: '2' },
+    },
+  });
+
+  if (!values.segments || !values.trace?.length) {
+    throw new Error('Specify --segments and at least one --trace');
+  }
+  if (!(values.vehicle in VEHICLE_PROFILES)) {
+    throw new Error(`--vehicle must be one of ${Object.keys(VEHICLE_PROFILES).join(', ')}`);
+  }
+  const windowSize = values.window === undefined ? undefined : Number(values.window);
+  if (windowSize !== undefined && !(Number.isInteger(windowSize) && windowSize >= 1)) {
+    throw new Error('--window must be a positive integer');
+  }
+
+  return {
+    segments: path.resolve(values.segments),
+    traces: values.trace.map((file) => path.resolve(file)),
+    windowSize,
+    vehicleClass: values.vehicle as VehicleClass,
+    minAccuracy: Number(values['min-accuracy']),
+    maxFlips: Number(values['max-flips']),
+  };
+}
+
+async function main(): Promise<boolean> {
+  const { segments, traces, windowSize, vehicleClass, minAccuracy, maxFlips } = parseCli();
+  const store = new MemorySegmentStore(async () => JSON.parse(await readFile(segments, 'utf8')));
+  const service = new SpeedLimitService(store, null, new HmmMapMatcher(windowSize ? { windowSize } : {}));
+  service.setVehicleClass(vehicleClass);
+
+  // The service falls back to built-in data when a dataset can't be used
+  if (!(await service.initialize()) || (await store.count()) === 0) {
+    throw new Error(`No valid segments in ${segments}`);
+  }
+  console.log(`Loaded ${await store.count()} segments from ${segments}`);
+
+  let passed = true;
+  for (const file of traces) {
+    const report = await runTrace(service, await loadTrace(file));
+    printReport(report);
+
+    const accuracy = (report.correct / report.fixes) * 100;
+    if (accuracy < minAccuracy) {
+      console.error(`  accuracy is below ${minAccuracy}%`);
+      passed = false;
+    }
+    if (report.flips > maxFlips) {
+      console.error(`  more than ${maxFlips} flips`);
+      passed = false;
+    }
+  }
+  return passed;
+}
+
+main()
+  .then((passed) => process.exit(passed ? 0 : 1))
+  .catch((error) => {
+    console.error('Error running speed limit regression:', error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { bboxRegion, buildSegments, buildUrbanAreas, fetchRegion } from '../scripts/fetchSpeedLimits';
+import { OverpassRecording, replayingOverpassClient, withRetry } from '../scripts/overpass';
+
+// Responses for --bbox 34.25,-24.85,34.29,-24.81 --highway trunk,tertiary --tile-size 0.02
+const RECORDING: OverpassRecording = JSON.parse(
+  readFileSync(path.join(__dirname, '../scripts/fixtures/overpass/zandamela-n1.json'), 'utf8')
+);
+const REGION = bboxRegion('34.25,-24.85,34.29,-24.81');
+const OPTIONS = { highways: ['trunk', 'tertiary'], tileSize: 0.02 };
+
+describe('fetchRegion', () => {
+  it('builds segments from replayed tiles', async () => {
+    const { elements } = await fetchRegion(withRetry(replayingOverpassClient(RECORDING)), REGION, OPTIONS);
+    const urbanAreas = buildUrbanAreas(elements);
+    const segments = buildSegments(elements, 'MZ', urbanAreas);
+
+    assert.deepEqual(urbanAreas.map((area) => area.id), ['way/3001', 'node/41']);
+    assert.deepEqual(
+      segments.map(({ id, speedLimit, limitSource, urban }) => ({ id, speedLimit, limitSource, urban })),
+      [
+        { id: 1001, speedLimit: 100, limitSource: 'tag', urban: false },
+        { id: 1002, speedLimit: 60, limitSource: 'tag', urban: true },
+        { id: 2001, speedLimit: 48.28, limitSource: 'tag', urban: true },
+        { id: 2002, speedLimit: 60, limitSource: 'class-default', urban: true },
+        { id: 1003, speedLimit: 80, limitSource: 'tag', urban: false },
+      ]
+    );
+  });
+
+  it('fails without retrying on queries that were not recorded', async () => {
+    const client = withRetry(replayingOverpassClient(RECORDING), { baseDelayMs: 60000 });
+    await assert.rejects(fetchRegion(client, REGION, { ...OPTIONS, tileSize: 0.01 }), /No recorded response/);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { HmmMapMatcher } from '../app/services/mapMatcher';
+import { MemorySegmentStore } from '../app/services/segmentStore';
+import { SpeedLimitService } from '../app/services/speedLimitService';
+
+const FIXTURES = path.join(__dirname, '../scripts/fixtures/regression');
+
+interface TraceFix {
+  time: string;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  heading: number;
+  accuracy: number;
+}
+
+// The N1 through a village, with Rua do Mercado running alongside it; the
+// trace stays on the N1 but drifts towards the side street
+const SEGMENTS: unknown = JSON.parse(readFileSync(path.join(FIXTURES, 'n1-village-segments.json'), 'utf8'));
+const TRACE: { fixes: TraceFix[] } = JSON.parse(
+  readFileSync(path.join(FIXTURES, 'n1-village-northbound.trace.json'), 'utf8')
+);
+
+// Times the matched road changes over the trace
+async function roadSwitches(matcher: HmmMapMatcher): Promise<number> {
+  const service = new SpeedLimitService(new MemorySegmentStore(() => SEGMENTS), null, matcher);
+  await service.initialize();
+
+  let switches = 0;
+  let previous: string | undefined;
+  for (const fix of TRACE.fixes) {
+    const { segment } = await service.getSpeedLimitAtLocationWithInfo({
+      coords: { ...fix, altitude: null, altitudeAccuracy: null },
+      timestamp: Date.parse(fix.time),
+    });
+    const road = segment?.name ?? '';
+    if (previous !== undefined && road !== previous) switches++;
+    previous = road;
+  }
+  return switches;
+}
+
+describe('HmmMapMatcher', () => {
+  it('switches roads less often than snapping each fix to the nearest segment', async () => {
+    const nearest = await roadSwitches(new HmmMapMatcher({ windowSize: 1 }));
+    const hmm = await roadSwitches(new HmmMapMatcher());
+
+    assert.equal(nearest, 16);
+    // A single excursion onto the side street, and back
+    assert.equal(hmm, 2);
+  });
+});
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ParsedMaxspeed, parseConditionalMaxspeed, parseMaxspeed, parseMaxspeedTags } from '../app/services/maxspeed';
+
+// maxspeed values as they are tagged on real ways
+const MAXSPEED_VALUES: [string, ParsedMaxspeed | null][] = [
+  ['50', { kind: 'numeric', speedLimit: 50 }],
+  [' 80 ', { kind: 'numeric', speedLimit: 80 }],
+  ['7.5', { kind: 'numeric', speedLimit: 7.5 }],
+  ['60 km/h', { kind: 'numeric', speedLimit: 60 }],
+  ['60 kmh', { kind: 'numeric', speedLimit: 60 }],
+  ['60 kph', { kind: 'numeric', speedLimit: 60 }],
+  ['50 mph', { kind: 'numeric', speedLimit: 80.47 }],
+  ['30mph', { kind: 'numeric', speedLimit: 48.28 }],
+  ['10 knots', { kind: 'numeric', speedLimit: 18.52 }],
+  ['5 kn', { kind: 'numeric', speedLimit: 9.26 }],
+  ['none', { kind: 'none', speedLimit: null }],
+  ['unlimited', { kind: 'none', speedLimit: null }],
+  ['signals', { kind: 'variable', speedLimit: null }],
+  ['variable', { kind: 'variable', speedLimit: null }],
+  ['walk', { kind: 'walk', speedLimit: 6 }],
+  ['Walk', { kind: 'walk', speedLimit: 6 }],
+  ['PT:urban', { kind: 'zone', speedLimit: 50, zone: 'PT:urban' }],
+  ['pt:Urban', { kind: 'zone', speedLimit: 50, zone: 'PT:urban' }],
+  ['MZ:rural', { kind: 'zone', speedLimit: 100, zone: 'MZ:rural' }],
+  ['ZA:motorway', { kind: 'zone', speedLimit: 120, zone: 'ZA:motorway' }],
+  ['GB:nsl_single', { kind: 'zone', speedLimit: 96.56, zone: 'GB:nsl_single' }],
+  ['DE:motorway', { kind: 'none', speedLimit: null, zone: 'DE:motorway' }],
+  ['DE:zone30', { kind: 'zone', speedLimit: 30, zone: 'DE:zone30' }],
+  ['DE:zone:20', { kind: 'zone', speedLimit: 20, zone: 'DE:zone:20' }],
+  ['DE:living_street', { kind: 'zone', speedLimit: 6, zone: 'DE:living_street' }],
+  ['60;80', { kind: 'numeric', speedLimit: 60 }],
+  ['80; 60', { kind: 'numeric', speedLimit: 60 }],
+  ['none;50', { kind: 'numeric', speedLimit: 50 }],
+  ['30 mph;50', { kind: 'numeric', speedLimit: 48.28 }],
+  ['50;junk', { kind: 'numeric', speedLimit: 50 }],
+  // Zones the table doesn't know, and junk
+  ['RU:rural', null],
+  ['XX:urban', null],
+  ['', null],
+  [';', null],
+  ['fast', null],
+  ['50 furlongs', null],
+  ['-50', null],
+  ['50,5', null],
+  ['implicit', null],
+];
+
+describe('parseMaxspeed', () => {
+  for (const [value, expected] of MAXSPEED_VALUES) {
+    it(JSON.stringify(value), () => {
+      assert.deepEqual(parseMaxspeed(value), expected);
+    });
+  }
+
+  it('accepts numbers and missing values', () => {
+    assert.deepEqual(parseMaxspeed(40), { kind: 'numeric', speedLimit: 40 });
+    assert.equal(parseMaxspeed(null), null);
+    assert.equal(parseMaxspeed(undefined), null);
+  });
+});
+
+describe('parseConditionalMaxspeed', () => {
+  it('splits rules on semicolons outside parentheses', () => {
+    assert.deepEqual(parseConditionalMaxspeed('30 @ (Mo-Fr 07:00-09:00; Sa 08:00-12:00); 80 @ wet'), [
+      { speedLimit: 30, condition: 'Mo-Fr 07:00-09:00; Sa 08:00-12:00' },
+      { speedLimit: 80, condition: 'wet' },
+    ]);
+  });
+
+  it('converts units and keeps the direction', () => {
+    assert.deepEqual(parseConditionalMaxspeed('20 mph @ (06:00-19:00)', 'forward'), [
+      { speedLimit: 32.19, condition: '06:00-19:00', direction: 'forward' },
+    ]);
+  });
+
+  it('skips rules without a limit or a condition', () => {
+    assert.deepEqual(parseConditionalMaxspeed('junk @ wet; 50; 60 @ ()'), []);
+    assert.deepEqual(parseConditionalMaxspeed(undefined), []);
+  });
+});
+
+describe('parseMaxspeedTags', () => {
+  it('takes the zone from source:maxspeed when maxspeed is missing', () => {
+    assert.deepEqual(parseMaxspeedTags({ highway: 'primary', 'source:maxspeed': 'PT:rural' }), {
+      speedLimit: 90,
+      zone: 'PT:rural',
+    });
+  });
+
+  it('keeps directional limits and uses the stricter one overall', () => {
+    assert.deepEqual(parseMaxspeedTags({ 'maxspeed:forward': '80', 'maxspeed:backward': '30 mph' }), {
+      speedLimit: 48.28,
+      speedLimitForward: 80,
+      speedLimitBackward: 48.28,
+    });
+  });
+
+  it('collects conditional limits of both directions', () => {
+    assert.deepEqual(
+      parseMaxspeedTags({
+        maxspeed: '60',
+        'maxspeed:conditional': '40 @ (22:00-06:00)',
+        'maxspeed:backward:conditional': '30 @ wet',
+      }),
+      {
+        speedLimit: 60,
+        conditionalLimits: [
+          { speedLimit: 40, condition: '22:00-06:00' },
+          { speedLimit: 30, condition: 'wet', direction: 'backward' },
+        ],
+      }
+    );
+  });
+
+  it('returns nothing for untagged ways', () => {
+    assert.deepEqual(parseMaxspeedTags({ highway: 'residential' }), {});
+    assert.deepEqual(parseMaxspeedTags(undefined), {});
+  });
+});
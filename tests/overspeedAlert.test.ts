@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  AlertConfig,
+  AlertEvent,
+  AlertState,
+  DEFAULT_ALERT_CONFIG,
+  INITIAL_ALERT_STATE,
+  overspeedThreshold,
+  stepAlert,
+} from '../app/services/overspeedAlert';
+
+const CONFIG: AlertConfig = {
+  tolerance: 10,
+  toleranceMode: 'percent',
+  hysteresis: 3,
+  minDurationMs: 2000,
+  repeatIntervalMs: 10000,
+};
+
+// Steps the machine through [time ms, km/h] samples in a 60 zone and lists the events with their times
+function run(samples: [number, number | null][], config: AlertConfig = CONFIG, speedLimit: number | null = 60) {
+  let state: AlertState = INITIAL_ALERT_STATE;
+  const events: [number, AlertEvent][] = [];
+  for (const [time, speed] of samples) {
+    const step = stepAlert(state, { speed, speedLimit, time }, config);
+    state = step.state;
+    if (step.event) events.push([time, step.event]);
+  }
+  return { state, events };
+}
+
+describe('overspeedThreshold', () => {
+  it('adds a percentage of the limit', () => {
+    assert.equal(overspeedThreshold(60, CONFIG), 66);
+    assert.equal(overspeedThreshold(100, DEFAULT_ALERT_CONFIG), 105);
+  });
+
+  it('adds km/h in absolute mode', () => {
+    assert.equal(overspeedThreshold(60, { ...CONFIG, toleranceMode: 'absolute', tolerance: 4 }), 64);
+  });
+
+  it('never goes below the limit', () => {
+    assert.equal(overspeedThreshold(60, { ...CONFIG, tolerance: -10 }), 60);
+  });
+});
+
+describe('stepAlert', () => {
+  it("doesn't alert within the tolerance", () => {
+    assert.deepEqual(run([[0, 66], [5000, 66]]).events, []);
+    const absolute = { ...CONFIG, toleranceMode: 'absolute' as const, tolerance: 8 };
+    assert.deepEqual(run([[0, 67], [5000, 67]], absolute).events, []);
+    assert.deepEqual(run([[0, 69], [5000, 69]], absolute).events, [[5000, 'alert']]);
+  });
+
+  it('alerts only once the speed has stayed over the threshold for minDurationMs', () => {
+    assert.deepEqual(run([[0, 70], [1000, 70], [1999, 70]]).state.phase, 'pending');
+    assert.deepEqual(run([[0, 70], [1000, 70], [2000, 70]]).events, [[2000, 'alert']]);
+  });
+
+  it('starts the duration over after dropping back under the threshold', () => {
+    const { events } = run([[0, 70], [1500, 60], [2000, 70], [3500, 70], [4000, 70]]);
+    assert.deepEqual(events, [[4000, 'alert']]);
+  });
+
+  it('clears only once the speed is hysteresis under the threshold', () => {
+    const { state, events } = run([[0, 70], [2000, 70], [3000, 64], [4000, 63.5], [5000, 63]]);
+    assert.deepEqual(events, [[2000, 'alert'], [5000, 'clear']]);
+    assert.equal(state.phase, 'ok');
+  });
+
+  it('repeats every repeatIntervalMs while still speeding', () => {
+    const samples: [number, number][] = [];
+    for (let time = 0; time <= 25000; time += 1000) samples.push([time, 70]);
+    assert.deepEqual(run(samples).events, [[2000, 'alert'], [12000, 'repeat'], [22000, 'repeat']]);
+  });
+
+  it('alerts once when repeatIntervalMs is 0', () => {
+    const samples: [number, number][] = [];
+    for (let time = 0; time <= 25000; time += 1000) samples.push([time, 70]);
+    assert.deepEqual(run(samples, { ...CONFIG, repeatIntervalMs: 0 }).events, [[2000, 'alert']]);
+  });
+
+  it('clears when the speed or the limit becomes unknown', () => {
+    assert.deepEqual(run([[0, 70], [2000, 70], [3000, null]]).events, [[2000, 'alert'], [3000, 'clear']]);
+    assert.deepEqual(run([[0, 70], [1000, null]]).events, []);
+    assert.deepEqual(run([[0, 200], [5000, 200]], CONFIG, null).events, []);
+  });
+});
@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { access, mkdir, mkdtemp, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { Server, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { ReadableStream } from 'node:stream/web';
+import { after, before, describe, it, mock } from 'node:test';
+import { PackFileSystem, RegionPackManager } from '../app/services/regionPackManager';
+import { RegionPack, RegionPackError } from '../app/services/regionPacks';
+import { MemorySegmentStore } from '../app/services/segmentStore';
+import { SpeedLimitService } from '../app/services/speedLimitService';
+
+class NodePackFileSystem implements PackFileSystem {
+  async makeDirectory(dir: string) {
+    await mkdir(dir, { recursive: true });
+  }
+
+  async exists(file: string) {
+    return access(file).then(
+      () => true,
+      () => false
+    );
+  }
+
+  readString(file: string) {
+    return readFile(file, 'utf8');
+  }
+
+  writeString(file: string, contents: string) {
+    return writeFile(file, contents);
+  }
+
+  move(from: string, to: string) {
+    return rename(from, to);
+  }
+
+  delete(file: string) {
+    return rm(file, { force: true });
+  }
+
+  async download(url: string, file: string) {
+    const response = await fetch(url);
+    if (response.body) {
+      await pipeline(Readable.fromWeb(response.body as ReadableStream), createWriteStream(file));
+    }
+    return response.status;
+  }
+
+  async sha256(contents: string) {
+    return createHash('sha256').update(contents).digest('hex');
+  }
+}
+
+function packData(speedLimit: number) {
+  return JSON.stringify([
+    {
+      id: 'way/1',
+      name: 'N1',
+      speedLimit,
+      country: 'MZ',
+      tags: { highway: 'trunk', maxspeed: String(speedLimit) },
+      geometry: [[34.26, -24.84], [34.27, -24.83]],
+    },
+  ]);
+}
+
+function sha256(contents: string) {
+  return createHash('sha256').update(contents).digest('hex');
+}
+
+// Path -> how the static server answers it
+const routes = new Map<string, (response: ServerResponse) => void>();
+
+function serve(file: string, contents: string) {
+  routes.set(`/${file}`, (response) => {
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(contents);
+  });
+}
+
+// Sends the headers and half the body, then drops the connection
+function serveInterrupted(file: string, contents: string) {
+  routes.set(`/${file}`, (response) => {
+    response.writeHead(200, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(contents) });
+    response.write(contents.slice(0, contents.length / 2), () => response.destroy());
+  });
+}
+
+function pack(version: number, sha: string): RegionPack {
+  return { id: 'MZ', name: 'Mozambique', version, sha256: sha, bbox: [34, -25, 35, -24], url: `MZ-${version}.json` };
+}
+
+describe('RegionPackManager', () => {
+  let server: Server;
+  let rootDir: string;
+  let manifestUrl: string;
+  const files = new NodePackFileSystem();
+
+  before(async () => {
+    // Keeps the service's logging off stdout, which the test runner reads results from
+    mock.method(console, 'log', () => undefined);
+    server = createServer((request, response) => {
+      const route = routes.get(request.url ?? '');
+      if (route) return route(response);
+      response.writeHead(404).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    manifestUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/manifest.json`;
+    rootDir = await mkdtemp(path.join(tmpdir(), 'packs-'));
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  const manager = () => new RegionPackManager(manifestUrl, files, rootDir);
+  // Each install or start as a fresh app would run it, without bundled data
+  const service = () => new SpeedLimitService(new MemorySegmentStore(() => []), manager());
+  const installedFiles = async () => (await readdir(path.join(rootDir, 'MZ'))).sort();
+  const activeVersion = async () => (await manager().getActivePacks()).MZ?.version;
+
+  it('installs a pack whose checksum matches', async () => {
+    const contents = packData(100);
+    serve('MZ-1.json', contents);
+    serve('manifest.json', JSON.stringify({ packs: [pack(1, sha256(contents))] }));
+
+    const app = service();
+    const [listed] = (await app.getRegionPackManifest()).packs;
+    await app.installRegionPack(listed);
+
+    assert.equal(await activeVersion(), 1);
+    assert.deepEqual(await installedFiles(), ['1.json']);
+  });
+
+  it('keeps the active pack when the download does not match its checksum', async () => {
+    serve('MZ-2.json', packData(80));
+    const app = service();
+
+    await assert.rejects(app.installRegionPack(pack(2, sha256(packData(60)))), /Checksum mismatch/);
+    assert.equal(await activeVersion(), 1);
+    assert.deepEqual(await installedFiles(), ['1.json']);
+  });
+
+  it('keeps the active pack when the download breaks off', async () => {
+    const contents = packData(80);
+    serveInterrupted('MZ-3.json', contents);
+    const app = service();
+
+    await assert.rejects(app.installRegionPack(pack(3, sha256(contents))), RegionPackError);
+    assert.equal(await activeVersion(), 1);
+    assert.deepEqual(await installedFiles(), ['1.json']);
+  });
+
+  it('rolls back to the previous version when a verified pack does not load', async () => {
+    const contents = JSON.stringify({ segments: [] });
+    serve('MZ-4.json', contents);
+    const app = service();
+
+    await assert.rejects(app.installRegionPack(pack(4, sha256(contents))), /no valid segments/);
+    assert.equal(await activeVersion(), 1);
+    assert.deepEqual(await installedFiles(), ['1.json']);
+  });
+
+  it('falls back to the replaced version when the new one no longer loads on a later start', async () => {
+    const contents = packData(60);
+    serve('MZ-5.json', contents);
+    await service().installRegionPack(pack(5, sha256(contents)));
+    assert.equal((await manager().getActivePacks()).MZ.previous?.version, 1);
+
+    await writeFile(path.join(rootDir, 'MZ', '5.json'), '{ truncated');
+    const app = service();
+    assert.equal(await app.initialize(), true);
+    assert.equal(await activeVersion(), 1);
+    assert.deepEqual(await installedFiles(), ['1.json']);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type * as Location from 'expo-location';
+import { MemorySegmentStore } from '../app/services/segmentStore';
+import { SpeedLimitService } from '../app/services/speedLimitService';
+
+// An untagged street marked rural whose start lies inside a town polygon,
+// running east into a mapped 50 and then a mapped 80
+const DATA = {
+  segments: [
+    {
+      id: 'street',
+      country: 'PT',
+      urban: false,
+      tags: { highway: 'tertiary' },
+      geometry: [[-9.0, 38.0], [-8.996, 38.0]],
+    },
+    {
+      id: 'mapped-50',
+      country: 'PT',
+      speedLimit: 50,
+      tags: { highway: 'tertiary', maxspeed: '50' },
+      geometry: [[-8.996, 38.0], [-8.994, 38.0]],
+    },
+    {
+      id: 'mapped-80',
+      country: 'PT',
+      speedLimit: 80,
+      tags: { highway: 'tertiary', maxspeed: '80' },
+      geometry: [[-8.994, 38.0], [-8.99, 38.0]],
+    },
+  ],
+  urbanAreas: [
+    {
+      id: 'town',
+      kind: 'place=town',
+      polygons: [[[[-9.001, 37.999], [-8.997, 37.999], [-8.997, 38.001], [-9.001, 38.001], [-9.001, 37.999]]]],
+    },
+  ],
+};
+
+function eastboundFix(longitude: number): Location.LocationObject {
+  return {
+    coords: { latitude: 38.0, longitude, altitude: null, accuracy: 5, altitudeAccuracy: null, heading: 90, speed: 10 },
+    timestamp: Date.UTC(2024, 0, 1, 12),
+  };
+}
+
+describe('SpeedLimitService', () => {
+  it('judges the upcoming limit by the same built-up area as the limit on display', async () => {
+    const service = new SpeedLimitService(new MemorySegmentStore(() => DATA));
+    await service.initialize();
+
+    const lookup = await service.getSpeedLimitAtLocationWithInfo(eastboundFix(-8.998));
+    assert.equal(lookup.segment?.id, 'street');
+    assert.equal(lookup.speedLimit, 50);
+
+    // The mapped 50 is no change from the town limit; the 80 after it is
+    const upcoming = await service.getUpcomingSpeedLimit();
+    assert.equal(upcoming?.segment.id, 'mapped-80');
+    assert.equal(upcoming?.speedLimit, 80);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { EXPORT_FORMATS, TripExportData, TripExportFormat, exportTrip } from '../app/services/tripExport';
+import { TripFix, overspeedIntervals, summarizeTrip } from '../app/services/trips';
+
+/**
+ * Compares each exporter's output with the files in tests/golden. After an
+ * intended change to the output, regenerate them with
+ *
+ *   UPDATE_GOLDEN=1 npm test
+ *
+ * and review the diff before committing.
+ */
+
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+const STARTED_AT = Date.UTC(2025, 5, 2, 6, 30);
+
+function fix(seconds: number, longitude: number, speed: number | null, overspeed = false): TripFix {
+  return {
+    time: STARTED_AT + seconds * 1000,
+    latitude: -24.99 + (longitude - 34.7) / 2,
+    longitude,
+    speed,
+    accuracy: 5,
+    speedLimit: 60,
+    segmentId: '180742219',
+    road: 'Rua <A> & "B"',
+    overspeed,
+  };
+}
+
+// A drive through Chidenguele: one violation over several fixes, gaps in the
+// recording around an isolated fix, and a violation caught only by the last fix
+const FIXES: TripFix[] = [
+  fix(0, 34.7, 12),
+  fix(5, 34.7004, 48),
+  fix(10, 34.7008, 67, true),
+  fix(15, 34.7013, 71, true),
+  fix(20, 34.7018, 58),
+  fix(25, 34.7022, null),
+  fix(100, 34.7036, 40),
+  fix(200, 34.705, 55),
+  fix(205, 34.7054, 59),
+  fix(210, 34.7059, 66, true),
+];
+
+const TRIP_DATA: TripExportData = {
+  trip: { id: 7, startedAt: STARTED_AT, endedAt: STARTED_AT + 210000, summary: summarizeTrip(FIXES) },
+  fixes: FIXES,
+  intervals: overspeedIntervals(FIXES),
+};
+
+function expectGolden(format: TripExportFormat) {
+  const file = path.join(GOLDEN_DIR, `trip.${EXPORT_FORMATS[format].extension}`);
+  const output = exportTrip(format, TRIP_DATA);
+  if (process.env.UPDATE_GOLDEN) writeFileSync(file, output);
+  assert.equal(output, readFileSync(file, 'utf8'));
+}
+
+describe('exportTrip', () => {
+  it('writes GPX', () => expectGolden('gpx'));
+  it('writes KML', () => expectGolden('kml'));
+  it('writes GeoJSON', () => expectGolden('geojson'));
+
+  it('draws a violation caught by a single fix as a point', () => {
+    const features = JSON.parse(exportTrip('geojson', TRIP_DATA)).features;
+    assert.deepEqual(
+      features.map((feature: { geometry: { type: string } }) => feature.geometry.type),
+      ['MultiLineString', 'LineString', 'Point']
+    );
+  });
+
+  it('keeps per-vertex values in step with the track coordinates', () => {
+    const [track] = JSON.parse(exportTrip('geojson', TRIP_DATA)).features;
+    const vertices = track.geometry.coordinates.flat().length;
+    // Every fix but the isolated one
+    assert.equal(vertices, FIXES.length - 1);
+    assert.equal(track.properties.times.length, vertices);
+    assert.equal(track.properties.speedsKmh.length, vertices);
+    assert.equal(track.properties.speedLimitsKmh.length, vertices);
+  });
+});